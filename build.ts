@@ -45,6 +45,7 @@ async function build() {
             "@elizaos/core",
             "@elizaos/cli",
             "zod",
+            "viem",
           ],
           naming: {
             entry: "[dir]/[name].[ext]",
@@ -0,0 +1,168 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { saveAddressAction } from "../actions";
+import { parseSaveAddressRequest } from "../actions/saveAddress";
+import {
+  AddressBookService,
+  AliasResolver,
+  NameResolutionService,
+  normalizeSavedName,
+} from "../services";
+import {
+  extractAddressReferences,
+  requireAddressReferences,
+} from "../utils/address";
+import {
+  createMockRuntime,
+  createTestMemory,
+  setupLoggerSpies,
+} from "./test-utils";
+
+const TREASURY = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+const VITALIK = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+
+const alice = { entityId: "alice", roomId: "room-1" };
+const bob = { entityId: "bob", roomId: "room-2" };
+
+const createRuntime = (aliases: Record<string, string> = {}) => {
+  const cache = new Map<string, unknown>();
+  const services: Record<string, unknown> = {};
+  const runtime = createMockRuntime({
+    getCache: (async (key: string) => cache.get(key)) as never,
+    setCache: (async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    }) as never,
+    getService: ((type: string) => services[type] ?? null) as never,
+  });
+
+  const addressBook = new AddressBookService(runtime);
+  services[AddressBookService.serviceType] = addressBook;
+  services[NameResolutionService.serviceType] = new NameResolutionService(
+    runtime,
+    [new AliasResolver(aliases)]
+  );
+
+  return { runtime, addressBook };
+};
+
+const addressesIn = async (
+  runtime: ReturnType<typeof createMockRuntime>,
+  text: string,
+  context: { entityId: string; roomId: string }
+) =>
+  (await extractAddressReferences(runtime, text, context)).references.map(
+    (reference) => reference.address
+  );
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+describe("normalizeSavedName", () => {
+  it("drops the owner and a trailing wallet", () => {
+    expect(normalizeSavedName("my Treasury wallet")).toBe("treasury");
+    expect(normalizeSavedName('"cold storage"')).toBe("cold storage");
+    expect(normalizeSavedName("my wallet")).toBe("wallet");
+  });
+});
+
+describe("AddressBookService", () => {
+  it("resolves names saved by the sender only", async () => {
+    const { runtime, addressBook } = createRuntime();
+    await addressBook.save("alice", "my treasury wallet", {
+      address: TREASURY,
+      family: "evm",
+    });
+
+    expect(
+      await addressesIn(runtime, "portfolio of my treasury wallet", alice)
+    ).toEqual([TREASURY]);
+    expect(
+      await addressesIn(runtime, "what is treasury worth?", alice)
+    ).toEqual([TREASURY]);
+    expect(await addressesIn(runtime, "what is treasury worth?", bob)).toEqual(
+      []
+    );
+  });
+
+  it("resolves my wallet to the wallet saved last", async () => {
+    const { runtime, addressBook } = createRuntime();
+    await addressBook.save("alice", "treasury", {
+      address: TREASURY,
+      family: "evm",
+    });
+    await addressBook.save("alice", "cold storage", {
+      address: VITALIK,
+      family: "evm",
+    });
+
+    expect(await addressesIn(runtime, "show my wallet", alice)).toEqual([
+      VITALIK,
+    ]);
+
+    await addressBook.save("alice", "my wallet", {
+      address: TREASURY,
+      family: "evm",
+    });
+    expect(await addressesIn(runtime, "show my wallet", alice)).toEqual([
+      TREASURY,
+    ]);
+    expect(await addressesIn(runtime, "compare the wallet", alice)).toEqual([]);
+  });
+
+  it("resolves that address to the room's last addresses", async () => {
+    const { runtime } = createRuntime();
+    await requireAddressReferences(runtime, `portfolio of ${VITALIK}`, alice);
+
+    expect(
+      await addressesIn(runtime, "and the PnL of that address?", alice)
+    ).toEqual([VITALIK]);
+    expect(
+      await addressesIn(runtime, "and the PnL of that address?", bob)
+    ).toEqual([]);
+  });
+
+  it("prefers saved names over aliases", async () => {
+    const { runtime, addressBook } = createRuntime({ treasury: VITALIK });
+    await addressBook.save("alice", "treasury", {
+      address: TREASURY,
+      family: "evm",
+    });
+
+    expect(await addressesIn(runtime, "treasury portfolio", alice)).toEqual([
+      TREASURY,
+    ]);
+    expect(await addressesIn(runtime, "treasury portfolio", bob)).toEqual([
+      VITALIK,
+    ]);
+  });
+});
+
+describe("saveAddressAction", () => {
+  it("parses save requests", () => {
+    expect(
+      parseSaveAddressRequest(`Save ${TREASURY} as my treasury wallet.`)
+    ).toEqual({ target: TREASURY, name: "my treasury wallet" });
+    expect(parseSaveAddressRequest("show my portfolio")).toBeNull();
+  });
+
+  it("saves the address for the sender", async () => {
+    const { runtime, addressBook } = createRuntime();
+    const result = await saveAddressAction.handler(
+      runtime,
+      createTestMemory({
+        entityId: "alice" as never,
+        roomId: "room-1" as never,
+        content: { text: `save ${TREASURY} as my treasury wallet` },
+      }),
+      undefined,
+      {}
+    );
+
+    expect(result?.success).toBe(true);
+    expect(result?.text).toContain(`treasury: ${TREASURY}`);
+    expect(await addressBook.list("alice")).toMatchObject([
+      { name: "treasury", address: TREASURY },
+    ]);
+  });
+});
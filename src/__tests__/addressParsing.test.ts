@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import {
+  addressKey,
+  detectAddressFamily,
+  parseAddresses,
+} from "../utils/addressParsing";
+
+const EVM = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+const SOLANA = "vines1vzrYbzLMRdu58ou5XTby4qAqVRLmqo36NKPTg";
+
+describe("parseAddresses", () => {
+  it("tags EVM and Solana addresses with their family in order of appearance", () => {
+    const { addresses, invalid } = parseAddresses(
+      `compare ${SOLANA} with ${EVM}`
+    );
+
+    expect(
+      addresses.map(({ address, family }) => ({ address, family }))
+    ).toEqual([
+      { address: SOLANA, family: "solana" },
+      { address: EVM, family: "evm" },
+    ]);
+    expect(invalid).toEqual([]);
+  });
+
+  it("accepts EVM addresses without a checksum", () => {
+    const { addresses } = parseAddresses(
+      `${EVM.toLowerCase()} ${EVM.toLowerCase()} ${EVM}`
+    );
+
+    expect(addresses.map(({ address }) => address)).toEqual([
+      EVM.toLowerCase(),
+    ]);
+  });
+
+  it("rejects EVM addresses with a mistyped checksum", () => {
+    const mistyped = EVM.replace("dA6", "Da6");
+    const { addresses, invalid } = parseAddresses(`show ${mistyped}`);
+
+    expect(addresses).toEqual([]);
+    expect(invalid).toEqual([
+      {
+        address: mistyped,
+        family: "evm",
+        index: 5,
+        reason: "has an invalid EIP-55 checksum",
+      },
+    ]);
+  });
+
+  it("ignores hex bodies and long words that are not public keys", () => {
+    const { addresses, invalid } = parseAddresses(
+      `${EVM} and 0x${"a".repeat(64)} and ${"z".repeat(32)}`
+    );
+
+    expect(addresses.map(({ address }) => address)).toEqual([EVM]);
+    expect(invalid).toEqual([]);
+  });
+});
+
+describe("detectAddressFamily", () => {
+  it("detects the family of a single address", () => {
+    expect(detectAddressFamily(EVM)).toBe("evm");
+    expect(detectAddressFamily(SOLANA)).toBe("solana");
+    expect(detectAddressFamily("vitalik.eth")).toBeUndefined();
+  });
+});
+
+describe("addressKey", () => {
+  it("compares EVM addresses case-insensitively only", () => {
+    expect(addressKey(EVM)).toBe(EVM.toLowerCase());
+    expect(addressKey(SOLANA)).toBe(SOLANA);
+  });
+});
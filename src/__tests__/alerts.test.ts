@@ -0,0 +1,213 @@
+import { beforeAll, describe, expect, it, mock } from "bun:test";
+import { PortfolioAlertService } from "../services";
+import { AlertRule, OctavPortfolioBalance, Protocol } from "../types";
+import { evaluateAlertRule, parseAlertConditions } from "../utils/alerts";
+import { createMockRuntime, setupLoggerSpies } from "./test-utils";
+
+const TREASURY = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+
+const values = { totalCostBasis: "0", totalClosedPnl: "0", totalOpenPnl: "0" };
+
+const protocol = (name: string, value: number, groups: string[]): Protocol => ({
+  name,
+  key: name.toLowerCase(),
+  value: String(value),
+  ...values,
+  chains: {
+    ethereum: {
+      name: "Ethereum",
+      key: "ethereum",
+      value: String(value),
+      ...values,
+      protocolPositions: Object.fromEntries(
+        groups.map((group) => [
+          group,
+          {
+            name: group,
+            totalValue: String(value),
+            assets: [],
+            protocolPositions: [],
+          },
+        ])
+      ),
+    },
+  },
+});
+
+const portfolio = (
+  networth: number,
+  protocols: Protocol[]
+): OctavPortfolioBalance => ({
+  address: TREASURY,
+  networth: String(networth),
+  chains: {
+    ethereum: { name: "Ethereum", key: "ethereum", value: "0", ...values },
+  },
+  assetByProtocols: Object.fromEntries(
+    protocols.map((entry) => [entry.key, entry])
+  ),
+});
+
+const rule = (condition: Partial<AlertRule>): AlertRule =>
+  ({
+    id: "rule",
+    address: TREASURY,
+    createdAt: 0,
+    ...condition,
+  }) as AlertRule;
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+describe("parseAlertConditions", () => {
+  it("reads every supported condition", () => {
+    expect(
+      parseAlertConditions(
+        "alert me if it drops by more than 12.5%, if exposure to Aave exceeds $50k, when a new protocol appears or a position is closed"
+      )
+    ).toEqual([
+      { type: "networth_drop", percent: 12.5 },
+      { type: "protocol_exposure", protocol: "aave", usd: 50_000 },
+      { type: "new_chain_or_protocol" },
+      { type: "position_removed" },
+    ]);
+  });
+
+  it("reads exposure thresholds on any protocol", () => {
+    expect(
+      parseAlertConditions("notify me when any protocol exposure is over 1.5m")
+    ).toEqual([
+      { type: "protocol_exposure", protocol: undefined, usd: 1_500_000 },
+    ]);
+  });
+});
+
+describe("evaluateAlertRule", () => {
+  const before = portfolio(1000, [protocol("Aave", 400, ["LENDING"])]);
+
+  it("triggers on net worth drops beyond the threshold", () => {
+    const drop = rule({ type: "networth_drop", percent: 10 });
+
+    expect(evaluateAlertRule(drop, before, portfolio(950, []))).toEqual([]);
+    expect(evaluateAlertRule(drop, before, portfolio(800, []))).toEqual([
+      "Net worth fell from $1,000.00 to $800.00 (-$200.00, -20.00%)",
+    ]);
+  });
+
+  it("measures net worth drops from the rule's baseline", () => {
+    const drop = rule({
+      type: "networth_drop",
+      percent: 10,
+      baselineNetworth: 1000,
+    });
+
+    expect(
+      evaluateAlertRule(drop, portfolio(950, []), portfolio(920, []))
+    ).toEqual([]);
+    expect(
+      evaluateAlertRule(drop, portfolio(920, []), portfolio(880, []))
+    ).toEqual(["Net worth fell from $1,000.00 to $880.00 (-$120.00, -12.00%)"]);
+    expect(
+      evaluateAlertRule(drop, portfolio(880, []), portfolio(850, []))
+    ).toEqual([]);
+  });
+
+  it("triggers when a protocol exposure crosses the threshold", () => {
+    const exposure = rule({
+      type: "protocol_exposure",
+      protocol: "aave",
+      usd: 500,
+    });
+    const after = portfolio(1000, [protocol("Aave", 600, ["LENDING"])]);
+
+    expect(evaluateAlertRule(exposure, before, after)).toEqual([
+      "Aave exposure is $600.00, above $500.00",
+    ]);
+    expect(evaluateAlertRule(exposure, after, after)).toEqual([]);
+  });
+
+  it("reports new protocols and closed positions", () => {
+    const after = portfolio(1000, [
+      protocol("Aave", 400, []),
+      protocol("Lido", 100, ["STAKED"]),
+    ]);
+
+    expect(
+      evaluateAlertRule(rule({ type: "new_chain_or_protocol" }), before, after)
+    ).toEqual(["New protocol: Lido"]);
+    expect(
+      evaluateAlertRule(rule({ type: "position_removed" }), before, after)
+    ).toEqual(["Position closed: Aave LENDING on Ethereum"]);
+  });
+});
+
+describe("PortfolioAlertService", () => {
+  it("notifies the room a triggered rule was created from", async () => {
+    const sendMessageToTarget = mock(async () => {});
+    const runtime = createMockRuntime({
+      getCache: (async () => undefined) as never,
+      setCache: (async () => true) as never,
+      sendMessageToTarget,
+    });
+    const service = await PortfolioAlertService.start(runtime);
+    await service.addRule(
+      { type: "networth_drop", percent: 5 },
+      { address: TREASURY, name: "treasury", roomId: "room", source: "discord" }
+    );
+
+    const triggers = await service.evaluate(
+      { address: TREASURY, timestamp: 0, portfolio: portfolio(100, []) },
+      {
+        address: TREASURY.toLowerCase(),
+        timestamp: 1,
+        portfolio: portfolio(50, []),
+      }
+    );
+
+    expect(triggers).toHaveLength(1);
+    expect(sendMessageToTarget).toHaveBeenCalledTimes(1);
+    const [target, content] = sendMessageToTarget.mock.calls[0] as unknown as [
+      { roomId: string; source: string },
+      { text: string },
+    ];
+    expect(target).toEqual({ source: "discord", roomId: "room" });
+    expect(content.text).toContain("=== 🚨 Portfolio Alert 🚨 ===");
+    expect(content.text).toContain(`Address: treasury (${TREASURY})`);
+  });
+
+  it("keeps the first net worth it sees as the baseline", async () => {
+    const runtime = createMockRuntime({
+      getCache: (async () => undefined) as never,
+      setCache: (async () => true) as never,
+    });
+    const service = await PortfolioAlertService.start(runtime);
+    await service.addRule(
+      { type: "networth_drop", percent: 10 },
+      { address: TREASURY }
+    );
+    const snapshot = (timestamp: number, networth: number) => ({
+      address: TREASURY,
+      timestamp,
+      portfolio: portfolio(networth, []),
+    });
+
+    await service.evaluate(snapshot(0, 1000), snapshot(1, 950));
+    const triggers = await service.evaluate(snapshot(1, 950), snapshot(2, 880));
+
+    expect(service.listRules()).toMatchObject([{ baselineNetworth: 1000 }]);
+    expect(triggers).toHaveLength(1);
+  });
+
+  it("removes the rules of addresses", async () => {
+    const runtime = createMockRuntime({
+      getCache: (async () => undefined) as never,
+      setCache: (async () => true) as never,
+    });
+    const service = await PortfolioAlertService.start(runtime);
+    await service.addRule({ type: "position_removed" }, { address: TREASURY });
+
+    expect(await service.removeRules([TREASURY.toLowerCase()])).toHaveLength(1);
+    expect(service.listRules()).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { formatPortfolioBalancesResponse } from "../actions";
+import { OctavMissingExchangeRateError } from "../errors";
+import {
+  ExchangeRateService,
+  resolveDisplayCurrency,
+  StaticRateSource,
+} from "../services";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import { detectCurrency, formatMoney } from "../utils/currency";
+import { createMockRuntime, setupLoggerSpies } from "./test-utils";
+
+const createRuntime = (
+  service: ExchangeRateService,
+  settings: Record<string, string> = {}
+) =>
+  createMockRuntime({
+    getSetting: ((key: string) => settings[key]) as never,
+    getService: ((type: string) =>
+      type === ExchangeRateService.serviceType ? service : null) as never,
+  });
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+describe("detectCurrency", () => {
+  it("recognizes currency names, codes and symbols", () => {
+    expect(detectCurrency("show it in euros")).toBe("EUR");
+    expect(detectCurrency("portfolio in GBP")).toBe("GBP");
+    expect(detectCurrency("how much in ¥?")).toBe("JPY");
+    expect(detectCurrency("in Swiss francs")).toBe("CHF");
+    expect(detectCurrency("in Canadian dollars")).toBe("CAD");
+    expect(detectCurrency("in dollars")).toBe("USD");
+    expect(detectCurrency("show my portfolio")).toBeUndefined();
+  });
+});
+
+describe("formatMoney", () => {
+  it("converts and formats with the currency's symbol and decimals", () => {
+    expect(formatMoney(1234.5)).toBe("$1,234.50");
+    expect(formatMoney(100, { code: "EUR", rate: 0.9 })).toBe("€90.00");
+    expect(formatMoney(100, { code: "JPY", rate: 150.4 })).toBe("¥15,040");
+    expect(formatMoney(-10, { code: "GBP", rate: 0.8 })).toBe("-£8.00");
+  });
+});
+
+describe("ExchangeRateService", () => {
+  it("asks sources in order and skips failing ones", async () => {
+    const service = new ExchangeRateService(undefined, [
+      new StaticRateSource({ EUR: 0.9 }),
+    ]);
+    service.register({
+      name: "broken",
+      getRate: async () => {
+        throw new Error("offline");
+      },
+    });
+    service.register({
+      name: "live",
+      getRate: async (currency) => (currency === "GBP" ? 0.75 : null),
+    });
+
+    expect(service.sources.map((source) => source.name)).toEqual([
+      "live",
+      "broken",
+      "table",
+    ]);
+    expect(await service.getRate("GBP")).toBe(0.75);
+    expect(await service.getRate("EUR")).toBe(0.9);
+    expect(await service.getRate("JPY")).toBeNull();
+    expect(await service.getRate("USD")).toBe(1);
+  });
+
+  it("flags rates from the built-in table as approximate", async () => {
+    const service = new ExchangeRateService(undefined, [
+      new StaticRateSource({ EUR: 0.9 }),
+    ]);
+    service.register({
+      name: "live",
+      getRate: async (currency) => (currency === "GBP" ? 0.75 : null),
+    });
+
+    expect(await service.getExchangeRate("GBP")).toEqual({
+      rate: 0.75,
+      approximate: false,
+    });
+    expect(await service.getExchangeRate("EUR")).toEqual({
+      rate: 0.9,
+      approximate: true,
+    });
+  });
+});
+
+describe("resolveDisplayCurrency", () => {
+  const service = new ExchangeRateService(undefined, [
+    new StaticRateSource({ EUR: 0.9, GBP: 0.8 }),
+  ]);
+
+  it("prefers the currency asked for over the configured one", async () => {
+    const runtime = createRuntime(service, { OCTAV_DISPLAY_CURRENCY: "gbp" });
+
+    expect(await resolveDisplayCurrency(runtime, "portfolio in euros")).toEqual(
+      { code: "EUR", rate: 0.9, approximate: true }
+    );
+    expect(await resolveDisplayCurrency(runtime, "portfolio")).toEqual({
+      code: "GBP",
+      rate: 0.8,
+      approximate: true,
+    });
+  });
+
+  it("defaults to USD and fails without a rate", async () => {
+    const runtime = createRuntime(service);
+
+    expect(await resolveDisplayCurrency(runtime, "portfolio")).toEqual({
+      code: "USD",
+      rate: 1,
+    });
+    await expect(
+      resolveDisplayCurrency(runtime, "in yen")
+    ).rejects.toBeInstanceOf(OctavMissingExchangeRateError);
+    await expect(resolveDisplayCurrency(runtime, "in yen")).rejects.toThrow(
+      "No exchange rate available for JPY"
+    );
+  });
+});
+
+describe("formatPortfolioBalancesResponse", () => {
+  it("applies the display currency to every value", () => {
+    const text = formatPortfolioBalancesResponse(
+      octavPortfolioBalanceSchema.parse({
+        address: "0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+        networth: "200",
+        chains: {
+          ethereum: { key: "ethereum", name: "Ethereum", value: "200" },
+        },
+        assetByProtocols: {
+          wallet: { key: "wallet", name: "Wallet", value: "200", chains: {} },
+        },
+      }),
+      {},
+      { code: "EUR", rate: 0.5 }
+    );
+
+    expect(text).toContain("Portfolio Balances (in EUR)");
+    expect(text).toContain("Total Networth: €100.00");
+    expect(text).toContain("Ethereum: €100.00");
+    expect(text).toContain("Wallet: €100.00");
+    expect(text).not.toContain("$");
+  });
+});
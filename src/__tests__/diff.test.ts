@@ -0,0 +1,106 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatPortfolioDiffResponse,
+  resolveComparisonDate,
+} from "../actions/comparePortfolio";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import { formatDate } from "../utils/dateRange";
+import { computePortfolioDiff } from "../utils/diff";
+
+const snapshot = (
+  chains: Record<string, number>,
+  protocols: Record<string, number>
+) =>
+  octavPortfolioBalanceSchema.parse({
+    address: "0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+    networth: String(Object.values(chains).reduce((a, b) => a + b, 0)),
+    chains: Object.fromEntries(
+      Object.entries(chains).map(([key, value]) => [
+        key,
+        { key, name: key.toUpperCase(), value },
+      ])
+    ),
+    assetByProtocols: Object.fromEntries(
+      Object.entries(protocols).map(([key, value]) => [
+        key,
+        { key, name: key.toUpperCase(), value, chains: {} },
+      ])
+    ),
+  });
+
+describe("computePortfolioDiff", () => {
+  const diff = computePortfolioDiff(
+    snapshot(
+      { ethereum: 1000, arbitrum: 500 },
+      { wallet: 1000, aave: 400, gmx: 100 }
+    ),
+    snapshot(
+      { ethereum: 1500, base: 200 },
+      { wallet: 1100, aave: 400, uniswap: 200 }
+    )
+  );
+
+  it("computes the net worth delta", () => {
+    expect(diff.startNetworth).toBe(1500);
+    expect(diff.endNetworth).toBe(1700);
+    expect(diff.change).toBe(200);
+  });
+
+  it("lists chains and protocols added and removed", () => {
+    expect(diff.chainsAdded).toEqual([{ key: "base", name: "BASE" }]);
+    expect(diff.chainsRemoved).toEqual([{ key: "arbitrum", name: "ARBITRUM" }]);
+    expect(diff.protocolsAdded).toEqual([{ key: "uniswap", name: "UNISWAP" }]);
+    expect(diff.protocolsRemoved).toEqual([{ key: "gmx", name: "GMX" }]);
+  });
+
+  it("sorts protocol changes by absolute impact and skips unchanged ones", () => {
+    expect(
+      diff.protocolChanges.map((protocol) => [protocol.key, protocol.change])
+    ).toEqual([
+      ["uniswap", 200],
+      ["wallet", 100],
+      ["gmx", -100],
+    ]);
+  });
+
+  it("renders the diff", () => {
+    const text = formatPortfolioDiffResponse(
+      ["0xEF7F2e81EA14538858d962df34eB1bFDa83da395"],
+      { date: new Date("2025-03-14T00:00:00Z"), source: "watchlist" },
+      new Date("2025-03-15T12:00:00Z"),
+      diff
+    );
+
+    expect(text).toContain(
+      "Compared: 2025-03-14 (watchlist snapshot) → 2025-03-15 (now)"
+    );
+    expect(text).toContain("Change: +$200.00 (+13.33%)");
+    expect(text).toContain("Chains Added: BASE");
+    expect(text).toContain("Protocols Removed: GMX");
+    expect(text).toContain(
+      "WALLET: +$100.00 (+10.00%) · $1,000.00 → $1,100.00"
+    );
+  });
+});
+
+describe("resolveComparisonDate", () => {
+  const now = new Date("2025-03-15T12:00:00Z");
+
+  it("defaults to a day ago", () => {
+    expect(resolveComparisonDate("what changed?", now)).toEqual(
+      new Date("2025-03-14T12:00:00Z")
+    );
+  });
+
+  it("uses the start of a named period", () => {
+    expect(formatDate(resolveComparisonDate("diff since last week", now))).toBe(
+      "2025-03-08"
+    );
+  });
+
+  it("uses an explicit date", () => {
+    expect(
+      formatDate(resolveComparisonDate("compare with 2025-03-01", now))
+    ).toBe("2025-03-01");
+  });
+});
@@ -0,0 +1,62 @@
+import { beforeAll, describe, expect, it, mock } from "bun:test";
+import { getPnlAction } from "../actions";
+import {
+  OctavInvalidAddressError,
+  OctavRateLimitError,
+  toUserMessage,
+} from "../errors";
+import {
+  createMockRuntime,
+  createTestMemory,
+  setupLoggerSpies,
+} from "./test-utils";
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+describe("toUserMessage", () => {
+  it("tells users what to do next for plugin errors", () => {
+    expect(
+      toUserMessage(new OctavRateLimitError("/v1/portfolio", 30_000))
+    ).toBe(
+      "Octav rate limit reached for /v1/portfolio. Try again in 30s, or lower OCTAV_RATE_LIMIT_PER_MINUTE to match your API plan."
+    );
+  });
+
+  it("falls back to the message of other errors", () => {
+    expect(toUserMessage(new Error("boom"))).toBe("boom");
+    expect(toUserMessage("boom")).toBe("boom");
+  });
+});
+
+describe("action errors", () => {
+  it("surfaces typed errors in the result and the callback", async () => {
+    const callback = mock(async () => []);
+
+    const result = await getPnlAction.handler(
+      createMockRuntime(),
+      createTestMemory({ content: { text: "what is my pnl?" } }),
+      undefined,
+      {},
+      callback
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      data: { errorCode: "INVALID_ADDRESS" },
+    });
+    expect((result as { error: unknown }).error).toBeInstanceOf(
+      OctavInvalidAddressError
+    );
+    expect(callback).toHaveBeenCalledWith({
+      text: "Valid address not found in message. Provide an EVM (0x…) or Solana address, an ENS name or a configured alias.",
+      content: {
+        success: false,
+        error:
+          "Valid address not found in message. Provide an EVM (0x…) or Solana address, an ENS name or a configured alias.",
+        errorCode: "INVALID_ADDRESS",
+      },
+    });
+  });
+});
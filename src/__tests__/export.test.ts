@@ -0,0 +1,114 @@
+import { describe, expect, it } from "bun:test";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import {
+  detectExportFormats,
+  PORTFOLIO_EXPORT_COLUMNS,
+  toCsv,
+  toFileAttachment,
+  toPortfolioExportRows,
+} from "../utils/export";
+
+const TREASURY = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+
+const protocolChain = (key: string, name: string, value: string) => ({
+  key,
+  name,
+  value,
+  totalCostBasis: "90",
+  totalOpenPnl: "10",
+  totalClosedPnl: "-5",
+});
+
+const portfolio = octavPortfolioBalanceSchema.parse({
+  address: TREASURY,
+  networth: "300",
+  chains: {},
+  assetByProtocols: {
+    wallet: {
+      key: "wallet",
+      name: "Wallet",
+      value: "200",
+      chains: {
+        ethereum: protocolChain("ethereum", "Ethereum", "150"),
+        arbitrum: protocolChain("arbitrum", "Arbitrum", "50"),
+      },
+    },
+    aave: {
+      key: "aave",
+      name: "Aave, v3",
+      value: "100",
+      chains: { ethereum: protocolChain("ethereum", "Ethereum", "100") },
+    },
+  },
+});
+
+describe("toPortfolioExportRows", () => {
+  it("writes one row per protocol and chain in a stable order", () => {
+    const rows = toPortfolioExportRows([portfolio]);
+
+    expect(rows.map((row) => [row.protocol, row.chain])).toEqual([
+      ["aave", "ethereum"],
+      ["wallet", "arbitrum"],
+      ["wallet", "ethereum"],
+    ]);
+    expect(rows[0]).toEqual({
+      address: TREASURY,
+      chain: "ethereum",
+      chain_name: "Ethereum",
+      protocol: "aave",
+      protocol_name: "Aave, v3",
+      value_usd: "100",
+      cost_basis_usd: "90",
+      open_pnl_usd: "10",
+      closed_pnl_usd: "-5",
+    });
+  });
+});
+
+describe("toCsv", () => {
+  it("writes the header and quotes fields where needed", () => {
+    const csv = toCsv(
+      PORTFOLIO_EXPORT_COLUMNS,
+      toPortfolioExportRows([portfolio])
+    );
+    const lines = csv.split("\r\n");
+
+    expect(lines[0]).toBe(
+      "address,chain,chain_name,protocol,protocol_name,value_usd,cost_basis_usd,open_pnl_usd,closed_pnl_usd"
+    );
+    expect(lines[1]).toBe(
+      `${TREASURY},ethereum,Ethereum,aave,"Aave, v3",100,90,10,-5`
+    );
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toBe("");
+  });
+
+  it("escapes quotes", () => {
+    expect(toCsv(["name"], [{ name: 'say "hi"' }])).toBe(
+      'name\r\n"say ""hi"""\r\n'
+    );
+  });
+});
+
+describe("toFileAttachment", () => {
+  it("embeds the file as a data URL", () => {
+    const attachment = toFileAttachment("export.csv", "text/csv", "a,b\r\n");
+
+    expect(attachment.title).toBe("export.csv");
+    expect(attachment.text).toBe("a,b\r\n");
+    expect(attachment.url).toBe(
+      `data:text/csv;base64,${Buffer.from("a,b\r\n").toString("base64")}`
+    );
+  });
+});
+
+describe("detectExportFormats", () => {
+  it("exports the formats named, or both", () => {
+    expect(detectExportFormats("export to CSV")).toEqual(["csv"]);
+    expect(detectExportFormats("export as json")).toEqual(["json"]);
+    expect(detectExportFormats("export the portfolio")).toEqual([
+      "csv",
+      "json",
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+  formatSignedUsd,
+  formatTokenAmount,
+  formatUsd,
+  resolveNumberFormat,
+} from "../utils/format";
+import { createMockRuntime } from "./test-utils";
+
+describe("formatCurrency", () => {
+  it("groups thousands with two decimals", () => {
+    expect(formatUsd(1234567.891)).toBe("$1,234,567.89");
+  });
+
+  it("abbreviates large amounts in compact notation", () => {
+    expect(formatUsd(12_345_678, { compact: true })).toBe("$12.3M");
+    expect(formatUsd(950, { compact: true })).toBe("$950.00");
+  });
+
+  it("keeps two significant digits below a cent", () => {
+    expect(formatUsd(0.001234)).toBe("$0.0012");
+    expect(formatUsd(0)).toBe("$0.00");
+  });
+
+  it("writes negatives with a sign or parentheses", () => {
+    expect(formatUsd(-5)).toBe("-$5.00");
+    expect(formatUsd(-5, { negativeStyle: "parentheses" })).toBe("($5.00)");
+    expect(formatSignedUsd(5)).toBe("+$5.00");
+    expect(formatSignedUsd(-5, { negativeStyle: "parentheses" })).toBe(
+      "($5.00)"
+    );
+  });
+
+  it("follows the locale", () => {
+    expect(formatCurrency(1234.5, "EUR", { locale: "de-DE" })).toBe(
+      "1.234,50\u00a0€"
+    );
+    expect(formatNumber(8200, 0, { locale: "de-DE" })).toBe("8.200");
+  });
+
+  it("combines compact notation with parentheses", () => {
+    expect(
+      formatUsd(-2_500_000, { compact: true, negativeStyle: "parentheses" })
+    ).toBe("($2.5M)");
+  });
+});
+
+describe("formatTokenAmount", () => {
+  it("shows up to four decimals", () => {
+    expect(formatTokenAmount(1234.56789)).toBe("1,234.5679");
+    expect(formatTokenAmount(1)).toBe("1");
+  });
+
+  it("keeps two significant digits for dust", () => {
+    expect(formatTokenAmount(0.0000123)).toBe("0.000012");
+  });
+});
+
+describe("formatPercent", () => {
+  it("always shows the sign", () => {
+    expect(formatPercent(12.345)).toBe("+12.35%");
+    expect(formatPercent(-3)).toBe("-3.00%");
+    expect(formatPercent(null)).toBe("n/a");
+  });
+});
+
+describe("resolveNumberFormat", () => {
+  const runtimeWith = (settings: Record<string, string>) =>
+    createMockRuntime({
+      getSetting: ((key: string) => settings[key]) as never,
+    });
+
+  it("reads the settings", () => {
+    expect(
+      resolveNumberFormat(
+        runtimeWith({
+          OCTAV_LOCALE: "fr-FR",
+          OCTAV_COMPACT_NUMBERS: "true",
+          OCTAV_NEGATIVE_STYLE: "parentheses",
+        })
+      )
+    ).toEqual({ locale: "fr-FR", compact: true, negativeStyle: "parentheses" });
+  });
+
+  it("falls back to en-US for unknown locales", () => {
+    expect(
+      resolveNumberFormat(runtimeWith({ OCTAV_LOCALE: "not a locale" })).locale
+    ).toBe("en-US");
+  });
+});
@@ -0,0 +1,229 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { getTokenHoldingsAction } from "../actions";
+import { parseTokenHoldingsFilter } from "../actions/getTokenHoldings";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import { AliasResolver, NameResolutionService, OctavClient } from "../services";
+import {
+  extractTokenHoldings,
+  filterTokenHoldings,
+  isSpamRequested,
+  isSpamToken,
+} from "../utils/holdings";
+import { messageIntentSchema } from "../utils/intent";
+import {
+  createMockRuntime,
+  createTestMemory,
+  setupLoggerSpies,
+} from "./test-utils";
+
+const asset = (symbol: string, balance: number, price: number) => ({
+  symbol,
+  balance: String(balance),
+  price: String(price),
+  value: String(balance * price),
+  contract: `0x${symbol.toLowerCase()}`,
+});
+
+const portfolio = octavPortfolioBalanceSchema.parse({
+  address: "0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+  networth: "10000",
+  chains: {},
+  assetByProtocols: {
+    wallet: {
+      name: "Wallet",
+      key: "wallet",
+      value: "6000",
+      chains: {
+        arbitrum: {
+          name: "Arbitrum",
+          key: "arbitrum",
+          value: "6000",
+          protocolPositions: {
+            WALLET: {
+              name: "wallet",
+              assets: [asset("ETH", 1, 3000), asset("ARB", 3000, 1)],
+            },
+          },
+        },
+      },
+    },
+    aave: {
+      name: "Aave",
+      key: "aave",
+      value: "4000",
+      chains: {
+        arbitrum: {
+          name: "Arbitrum",
+          key: "arbitrum",
+          value: "4000",
+          protocolPositions: {
+            LENDING: {
+              name: "lending",
+              protocolPositions: [
+                {
+                  name: "lending",
+                  supplyAssets: [asset("ETH", 1, 3000), asset("DUST", 1, 0.5)],
+                  borrowAssets: [asset("USDC", 1000, 1)],
+                },
+              ],
+            },
+          },
+        },
+        ethereum: {
+          name: "Ethereum",
+          key: "ethereum",
+          value: "1000",
+          protocolPositions: {
+            LENDING: {
+              name: "lending",
+              assets: [asset("USDC", 1000, 1)],
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+describe("extractTokenHoldings", () => {
+  it("merges the same token across protocols and leaves out debts", () => {
+    const holdings = extractTokenHoldings([portfolio]);
+
+    expect(holdings.map((h) => `${h.symbol}@${h.chain}`)).toEqual([
+      "ETH@arbitrum",
+      "ARB@arbitrum",
+      "USDC@ethereum",
+      "DUST@arbitrum",
+    ]);
+    expect(holdings[0].balance).toBe(2);
+    expect(holdings[0].value).toBe(6000);
+    expect(holdings[0].protocols).toEqual(["Wallet", "Aave"]);
+  });
+
+  it("filters by chain, minimum value and limit", () => {
+    const holdings = extractTokenHoldings([portfolio]);
+
+    expect(
+      filterTokenHoldings(holdings, { chain: "Arbitrum", minValue: 1 }).map(
+        (h) => h.symbol
+      )
+    ).toEqual(["ETH", "ARB"]);
+    expect(filterTokenHoldings(holdings, { limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe("parseTokenHoldingsFilter", () => {
+  it("reads minimum value and top-N from the message", () => {
+    expect(
+      parseTokenHoldingsFilter("top 5 tokens over $1,500 on Arbitrum")
+    ).toEqual({ minValue: 1500, limit: 5 });
+    expect(parseTokenHoldingsFilter("tokens worth at least 2k")).toEqual({
+      minValue: 2000,
+    });
+    expect(parseTokenHoldingsFilter("what tokens does it hold?")).toEqual({});
+  });
+
+  it("takes the minimum value from the model's extraction", () => {
+    const intent = messageIntentSchema.parse({
+      intent: "token_holdings",
+      minValueUsd: 500,
+    });
+
+    expect(
+      parseTokenHoldingsFilter("top 3 tokens worth five hundred bucks", intent)
+    ).toEqual({ minValue: 500, limit: 3 });
+    expect(
+      parseTokenHoldingsFilter(
+        "tokens over $2k",
+        messageIntentSchema.parse({ intent: "token_holdings" })
+      )
+    ).toEqual({});
+  });
+});
+
+describe("getTokenHoldingsAction", () => {
+  beforeAll(() => {
+    setupLoggerSpies();
+  });
+
+  const run = (text: string) =>
+    getTokenHoldingsAction.handler(
+      createMockRuntime({
+        getService: ((type: string) =>
+          ({
+            [OctavClient.serviceType]: {
+              getPortfolios: async () => [portfolio],
+            },
+            [NameResolutionService.serviceType]: new NameResolutionService(
+              undefined,
+              [new AliasResolver({ "jesse.base.eth": portfolio.address })]
+            ),
+          })[type] ?? null) as never,
+      }),
+      createTestMemory({ content: { text } }),
+      undefined,
+      {}
+    );
+
+  it("filters by the chain named in the message", async () => {
+    const result = await run(`tokens of ${portfolio.address} on Ethereum`);
+
+    expect(result?.text).toContain("Chain: Ethereum");
+    expect(result?.text).toContain("1. USDC (Ethereum)");
+  });
+
+  it("reports chains the wallet holds nothing on", async () => {
+    const result = await run(`tokens of ${portfolio.address} on Base`);
+
+    expect(result?.text).toContain("Chain: Base");
+    expect(result?.text).toContain("No tokens on Base.");
+  });
+
+  it("does not read Basenames as a chain filter", async () => {
+    const result = await run("what tokens does jesse.base.eth hold?");
+
+    expect(result?.text).not.toContain("Chain: Base");
+    expect(result?.text).toContain("Showing up to 20 of 4 tokens");
+  });
+});
+
+describe("isSpamToken", () => {
+  const holding = (symbol: string, name?: string, contract?: string) => ({
+    symbol,
+    name,
+    contract,
+    balance: 1,
+    price: 0,
+    value: 0,
+    chain: "ethereum",
+    chainName: "Ethereum",
+    protocols: ["Wallet"],
+  });
+
+  it("flags tokens advertising a website or a reward", () => {
+    expect(isSpamToken(holding("USDC", "USD Coin"))).toBe(false);
+    expect(isSpamToken(holding("$ VISIT eth-drop.xyz"))).toBe(true);
+    expect(isSpamToken(holding("ETHG", "Claim your ETH rewards"))).toBe(true);
+    expect(isSpamToken(holding("ETH", "Visit https://eth-drop.xyz"))).toBe(
+      true
+    );
+  });
+
+  it("keeps legitimate tokens with domains or rewards in their name", () => {
+    expect(isSpamToken(holding("CRO", "Crypto.com Coin"))).toBe(false);
+    expect(isSpamToken(holding("stkAAVE", "Staked Aave Rewards"))).toBe(false);
+    expect(isSpamToken(holding("FREE", "FREE coin"))).toBe(false);
+  });
+
+  it("flags listed contracts and symbols", () => {
+    const spamTokens = new Set(["0xabc", "fakeusdc"]);
+
+    expect(isSpamToken(holding("FOO", "Foo", "0xABC"), spamTokens)).toBe(true);
+    expect(isSpamToken(holding("FakeUSDC"), spamTokens)).toBe(true);
+  });
+
+  it("detects requests to keep spam", () => {
+    expect(isSpamRequested("list tokens including spam")).toBe(true);
+    expect(isSpamRequested("list tokens")).toBe(false);
+  });
+});
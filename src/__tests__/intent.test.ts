@@ -0,0 +1,173 @@
+import { beforeAll, describe, expect, it, mock } from "bun:test";
+import { ModelType } from "@elizaos/core";
+import { getPortfolioBalancesAction } from "../actions";
+import {
+  extractMessageIntent,
+  getIntentChains,
+  getIntentDateRange,
+  messageIntentSchema,
+} from "../utils/intent";
+import {
+  createMockRuntime,
+  createTestMemory,
+  setupLoggerSpies,
+} from "./test-utils";
+
+const ADDRESS = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+
+const createRuntime = (
+  extraction: unknown,
+  settings: Record<string, string> = {}
+) => {
+  const useModel = mock(async () => extraction);
+  const runtime = createMockRuntime({
+    getSetting: ((key: string) => settings[key]) as never,
+    getModel: ((type: string) =>
+      type === ModelType.OBJECT_SMALL
+        ? async () => extraction
+        : undefined) as never,
+    useModel: useModel as never,
+  });
+  return { runtime, useModel };
+};
+
+describe("extractMessageIntent", () => {
+  beforeAll(() => {
+    setupLoggerSpies();
+  });
+
+  it("parses the model's extraction", async () => {
+    const { runtime } = createRuntime({
+      intent: "portfolio",
+      addresses: [ADDRESS],
+      chains: ["arbitrum"],
+      protocols: null,
+      dateRange: { start: "2025-03-01", end: null },
+      minValueUsd: 100,
+      outputFormat: "markdown",
+    });
+
+    expect(
+      await extractMessageIntent(
+        runtime,
+        `What's ${ADDRESS} worth on Arbitrum? Give me a table`
+      )
+    ).toEqual({
+      intent: "portfolio",
+      addresses: [ADDRESS],
+      chains: ["arbitrum"],
+      protocols: [],
+      dateRange: { start: "2025-03-01", end: null },
+      minValueUsd: 100,
+      outputFormat: "markdown",
+    });
+  });
+
+  it("drops addresses that are not written in the message", async () => {
+    const { runtime } = createRuntime({
+      intent: "portfolio",
+      addresses: [`${ADDRESS.slice(0, 10)}123`, "vitalik.eth"],
+    });
+
+    expect(
+      (await extractMessageIntent(runtime, "What is vitalik.eth worth?"))
+        ?.addresses
+    ).toEqual(["vitalik.eth"]);
+  });
+
+  it("asks the model once per message", async () => {
+    const { runtime, useModel } = createRuntime({ intent: "credits" });
+
+    await extractMessageIntent(runtime, "how many credits are left?");
+    await extractMessageIntent(runtime, "how many credits are left?");
+
+    expect(useModel).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns null without a model, when disabled or on invalid output", async () => {
+    expect(
+      await extractMessageIntent(createMockRuntime(), "show my portfolio")
+    ).toBeNull();
+    expect(
+      await extractMessageIntent(
+        createRuntime(
+          { intent: "portfolio" },
+          { OCTAV_LLM_EXTRACTION: "false" }
+        ).runtime,
+        "show my portfolio"
+      )
+    ).toBeNull();
+    expect(
+      await extractMessageIntent(
+        createRuntime({ intent: "weather" }).runtime,
+        "show my portfolio"
+      )
+    ).toBeNull();
+  });
+});
+
+describe("extracted parameters", () => {
+  const NOW = new Date("2025-03-15T12:00:00Z");
+  const intent = (extraction: Record<string, unknown>) =>
+    messageIntentSchema.parse({ intent: "transactions", ...extraction });
+
+  it("maps chain names to known chain keys", () => {
+    expect(
+      getIntentChains(intent({ chains: ["Arbitrum", "BSC", "Atlantis"] }))
+    ).toEqual(["arbitrum", "binance"]);
+  });
+
+  it("reads the period, running until now without an end", () => {
+    expect(
+      getIntentDateRange(intent({ dateRange: { start: "2025-01-01" } }), NOW)
+    ).toEqual({ startDate: new Date("2025-01-01T00:00:00Z"), endDate: NOW });
+    expect(getIntentDateRange(intent({ dateRange: null }), NOW)).toEqual({});
+    expect(() =>
+      getIntentDateRange(
+        intent({ dateRange: { start: "2025-03-01", end: "2025-02-01" } }),
+        NOW
+      )
+    ).toThrow("The period ends on 2025-02-01, before it starts on 2025-03-01");
+  });
+});
+
+describe("getPortfolioBalancesAction.validate", () => {
+  const validate = (
+    runtime: ReturnType<typeof createMockRuntime>,
+    text: string
+  ) =>
+    getPortfolioBalancesAction.validate(
+      runtime,
+      createTestMemory({ content: { text } }),
+      undefined
+    );
+
+  it("follows the extracted intent", async () => {
+    expect(
+      await validate(
+        createRuntime({ intent: "portfolio", addresses: [ADDRESS] }).runtime,
+        `what's ${ADDRESS} worth?`
+      )
+    ).toBe(true);
+    expect(
+      await validate(
+        createRuntime({ intent: "none" }).runtime,
+        "I love my portfolio of paintings"
+      )
+    ).toBe(false);
+  });
+
+  it("does not ask the model about unrelated messages", async () => {
+    const { runtime, useModel } = createRuntime({ intent: "portfolio" });
+
+    expect(await validate(runtime, "tell me a joke")).toBe(false);
+    expect(await validate(runtime, `spell ${"xyz".repeat(11)} backwards`)).toBe(
+      false
+    );
+    expect(useModel).not.toHaveBeenCalled();
+  });
+
+  it("falls back to keywords without a model", async () => {
+    expect(await validate(createMockRuntime(), "show my portfolio")).toBe(true);
+  });
+});
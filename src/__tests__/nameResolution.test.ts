@@ -0,0 +1,134 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { namehash } from "viem/ens";
+import { formatPortfolioBalancesResponse } from "../actions";
+import {
+  AliasResolver,
+  BasenameResolver,
+  EnsResolver,
+  NameResolutionService,
+} from "../services";
+import {
+  extractAddressReferences,
+  requireAddressReferences,
+  toAddressLabels,
+} from "../utils/address";
+import { createMockRuntime, setupLoggerSpies } from "./test-utils";
+
+const VITALIK = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+const JESSE = "0x849151d7D0bF1F34b70d5caD5149D28CC2308bf1";
+const TREASURY = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+const SOLANA = "vines1vzrYbzLMRdu58ou5XTby4qAqVRLmqo36NKPTg";
+
+const ensNames: Record<string, string> = { "vitalik.eth": VITALIK };
+const basenames: Record<string, string> = { "jesse.base.eth": JESSE };
+
+const createRuntime = () => {
+  const service = new NameResolutionService(undefined, [
+    new AliasResolver({
+      Treasury: TREASURY,
+      "sol vault": SOLANA,
+      typo: "0x1234",
+    }),
+    new BasenameResolver({
+      readContract: (async ({ args }: { args: [string] }) =>
+        Object.entries(basenames).find(
+          ([name]) => args[0] === namehash(name)
+        )?.[1] ?? "0x0000000000000000000000000000000000000000") as never,
+    }),
+    new EnsResolver({
+      getEnsAddress: (async ({ name }: { name: string }) =>
+        ensNames[name] ?? null) as never,
+    }),
+  ]);
+
+  return createMockRuntime({
+    getService: ((type: string) =>
+      type === NameResolutionService.serviceType ? service : null) as never,
+  });
+};
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+describe("extractAddressReferences", () => {
+  it("resolves ENS names, Basenames and aliases in order of appearance", async () => {
+    const { references, unresolved } = await extractAddressReferences(
+      createRuntime(),
+      `Compare jesse.base.eth, ${TREASURY.toLowerCase()} and vitalik.eth`
+    );
+
+    expect(references).toEqual([
+      { address: JESSE, family: "evm", name: "jesse.base.eth" },
+      { address: TREASURY.toLowerCase(), family: "evm" },
+      { address: VITALIK, family: "evm", name: "vitalik.eth" },
+    ]);
+    expect(unresolved).toEqual([]);
+  });
+
+  it("matches aliases as whole words only", async () => {
+    const { references } = await extractAddressReferences(
+      createRuntime(),
+      "show the treasury portfolio, not the treasurys"
+    );
+
+    expect(references).toEqual([
+      { address: TREASURY, family: "evm", name: "treasury" },
+    ]);
+  });
+
+  it("reports names that could not be resolved", async () => {
+    await expect(
+      requireAddressReferences(createRuntime(), "show unknown.eth")
+    ).rejects.toThrow("Could not resolve unknown.eth to an address");
+  });
+
+  it("tags resolved addresses with their chain family", async () => {
+    const { references } = await extractAddressReferences(
+      createRuntime(),
+      "show the sol vault"
+    );
+
+    expect(references).toEqual([
+      { address: SOLANA, family: "solana", name: "sol vault" },
+    ]);
+  });
+
+  it("reports names that resolve to invalid addresses", async () => {
+    await expect(
+      requireAddressReferences(createRuntime(), "show typo")
+    ).rejects.toThrow(
+      "Address 0x1234 (resolved from typo) is not a valid EVM or Solana address"
+    );
+  });
+
+  it("falls back to literal addresses without the service", async () => {
+    const { references } = await extractAddressReferences(
+      createMockRuntime(),
+      `show vitalik.eth and ${VITALIK}`
+    );
+
+    expect(references).toEqual([{ address: VITALIK, family: "evm" }]);
+  });
+});
+
+describe("formatted output", () => {
+  it("shows resolved names alongside addresses", async () => {
+    const references = await requireAddressReferences(
+      createRuntime(),
+      "show vitalik.eth"
+    );
+
+    const text = formatPortfolioBalancesResponse(
+      {
+        address: VITALIK,
+        networth: "1",
+        chains: {},
+        assetByProtocols: {},
+      },
+      toAddressLabels(references)
+    );
+
+    expect(text).toContain(`Address: vitalik.eth (${VITALIK})`);
+  });
+});
@@ -0,0 +1,304 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  OctavInsufficientCreditsError,
+  OctavMissingApiKeyError,
+  OctavRateLimitError,
+  OctavRequestError,
+  OctavResponseError,
+  OctavUnauthorizedError,
+  OctavUpstreamUnavailableError,
+} from "../errors";
+import {
+  OCTAV_CACHE_TTL_MS,
+  OCTAV_CREDIT_RESERVE,
+  OCTAV_CREDITS_CHECK_INTERVAL_MS,
+  OCTAV_MAX_RETRIES,
+  OCTAV_RATE_LIMIT_PER_MINUTE,
+  OCTAV_REQUEST_TIMEOUT_MS,
+  OCTAV_RETRY_BASE_DELAY_MS,
+  OctavClient,
+  resolveOctavClientConfig,
+} from "../services";
+import { createMockRuntime, setupLoggerSpies } from "./test-utils";
+
+const ADDRESS = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+
+const portfolioFixture = {
+  address: ADDRESS,
+  networth: "1234.5",
+  assetByProtocols: {},
+  chains: {},
+};
+
+describe("OctavClient", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let lastRequest: { url: URL; authorization: string | null } | undefined;
+  let requestCount = 0;
+  let failuresLeft = 0;
+  let credits = 0;
+
+  beforeAll(() => {
+    setupLoggerSpies();
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const url = new URL(request.url);
+        requestCount++;
+        lastRequest = {
+          url,
+          authorization: request.headers.get("authorization"),
+        };
+        if (url.pathname === "/flaky/v1/portfolio" && failuresLeft-- > 0) {
+          return new Response("Bad Gateway", { status: 502 });
+        }
+        if (url.pathname === "/limited/v1/portfolio" && failuresLeft-- > 0) {
+          return new Response("Too Many Requests", {
+            status: 429,
+            headers: { "Retry-After": "1" },
+          });
+        }
+        if (url.pathname === "/slow/v1/portfolio" && failuresLeft-- > 0) {
+          await Bun.sleep(200);
+        }
+        if (
+          ["", "/flaky", "/limited", "/slow"].some(
+            (prefix) => url.pathname === `${prefix}/v1/portfolio`
+          )
+        ) {
+          return Response.json([portfolioFixture]);
+        }
+        if (url.pathname === "/v1/credits") {
+          return Response.json(credits);
+        }
+        const status = url.pathname.match(/^\/status\/(\d+)\//)?.[1];
+        if (status) {
+          return new Response("Failed", {
+            status: Number(status),
+            headers: { "Retry-After": "3600" },
+          });
+        }
+        if (url.pathname === "/empty/v1/portfolio") {
+          return Response.json([]);
+        }
+        if (url.pathname === "/malformed/v1/portfolio") {
+          return Response.json([
+            { ...portfolioFixture, chains: { ethereum: { name: "Ethereum" } } },
+          ]);
+        }
+        return new Response("Not Found", { status: 404 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const createClient = (settings = {}) =>
+    new OctavClient(undefined, {
+      apiKey: "test-key",
+      baseUrl: server.url.origin,
+      timeoutMs: 1000,
+      maxRetries: 3,
+      retryBaseDelayMs: 1,
+      rateLimitPerMinute: 0,
+      cacheTtlMs: { portfolio: 0, historical: 0, transactions: 0 },
+      ...settings,
+    });
+
+  it("reads its configuration from runtime settings", () => {
+    const runtime = createMockRuntime({
+      getSetting: (key: string) =>
+        ({
+          OCTAV_API_KEY: "runtime-key",
+          OCTAV_API_URL: "http://octav.local/",
+          OCTAV_REQUEST_TIMEOUT_MS: "5000",
+          OCTAV_PORTFOLIO_CACHE_TTL_MS: "0",
+          OCTAV_CACHE_PERSIST: "true",
+          OCTAV_RATE_LIMIT_PER_MINUTE: "120",
+          OCTAV_CREDIT_WARNING_THRESHOLDS: "500,50",
+        })[key] ?? null,
+    });
+
+    expect(resolveOctavClientConfig(runtime)).toEqual({
+      apiKey: "runtime-key",
+      baseUrl: "http://octav.local",
+      timeoutMs: 5000,
+      maxRetries: OCTAV_MAX_RETRIES,
+      retryBaseDelayMs: OCTAV_RETRY_BASE_DELAY_MS,
+      rateLimitPerMinute: 120,
+      cacheTtlMs: {
+        portfolio: 0,
+        historical: OCTAV_CACHE_TTL_MS.historical,
+        transactions: OCTAV_CACHE_TTL_MS.transactions,
+      },
+      persistCache: true,
+      creditWarningThresholds: [500, 50],
+      creditReserve: OCTAV_CREDIT_RESERVE,
+      creditsCheckIntervalMs: OCTAV_CREDITS_CHECK_INTERVAL_MS,
+    });
+  });
+
+  it("falls back on number settings that are invalid or out of range", () => {
+    const runtime = createMockRuntime({
+      getSetting: (key: string) =>
+        ({
+          OCTAV_REQUEST_TIMEOUT_MS: "0",
+          OCTAV_MAX_RETRIES: "-1",
+          OCTAV_RATE_LIMIT_PER_MINUTE: "lots",
+        })[key] ?? null,
+    });
+
+    expect(resolveOctavClientConfig(runtime)).toMatchObject({
+      timeoutMs: OCTAV_REQUEST_TIMEOUT_MS,
+      maxRetries: OCTAV_MAX_RETRIES,
+      rateLimitPerMinute: OCTAV_RATE_LIMIT_PER_MINUTE,
+    });
+  });
+
+  it("fetches a portfolio with bearer authentication", async () => {
+    const portfolio = await createClient().getPortfolio(ADDRESS);
+
+    expect(portfolio).toEqual(portfolioFixture);
+    expect(lastRequest?.authorization).toBe("Bearer test-key");
+    expect(lastRequest?.url.searchParams.get("addresses")).toBe(ADDRESS);
+  });
+
+  it("fails without an API key", async () => {
+    await expect(
+      createClient({ apiKey: undefined }).getPortfolio(ADDRESS)
+    ).rejects.toBeInstanceOf(OctavMissingApiKeyError);
+  });
+
+  it("surfaces non-OK responses without retrying client errors", async () => {
+    requestCount = 0;
+    await expect(
+      createClient({ baseUrl: `${server.url.origin}/missing` }).getPortfolio(
+        ADDRESS
+      )
+    ).rejects.toThrow("404");
+    expect(requestCount).toBe(1);
+  });
+
+  it("rejects payloads that do not match the portfolio schema", async () => {
+    const request = createClient({
+      baseUrl: `${server.url.origin}/malformed`,
+    }).getPortfolio(ADDRESS);
+
+    await expect(request).rejects.toBeInstanceOf(OctavResponseError);
+    await expect(request).rejects.toThrow('field "0.chains.ethereum.key"');
+  });
+
+  it("rejects empty portfolio responses", async () => {
+    const request = createClient({
+      baseUrl: `${server.url.origin}/empty`,
+    }).getPortfolio(ADDRESS);
+
+    await expect(request).rejects.toBeInstanceOf(OctavResponseError);
+    await expect(request).rejects.toThrow(
+      `no portfolio returned for ${ADDRESS}`
+    );
+  });
+
+  it("serves repeated requests from the cache until refreshed", async () => {
+    const client = createClient({
+      cacheTtlMs: { portfolio: 60_000, historical: 0, transactions: 0 },
+    });
+    requestCount = 0;
+
+    await Promise.all([
+      client.getPortfolio(ADDRESS),
+      client.getPortfolio(ADDRESS),
+    ]);
+    await client.getPortfolio(ADDRESS);
+    expect(requestCount).toBe(1);
+
+    await client.getPortfolio(ADDRESS, { refresh: true });
+    expect(requestCount).toBe(2);
+  });
+
+  it("retries transient upstream failures", async () => {
+    const client = createClient({ baseUrl: `${server.url.origin}/flaky` });
+    failuresLeft = 2;
+    requestCount = 0;
+
+    expect(await client.getPortfolio(ADDRESS)).toEqual(portfolioFixture);
+    expect(requestCount).toBe(3);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const client = createClient({
+      baseUrl: `${server.url.origin}/flaky`,
+      maxRetries: 1,
+    });
+    failuresLeft = 2;
+
+    await expect(client.getPortfolio(ADDRESS)).rejects.toThrow("502");
+  });
+
+  it("waits for Retry-After on rate-limited responses", async () => {
+    const client = createClient({ baseUrl: `${server.url.origin}/limited` });
+    failuresLeft = 1;
+    const startedAt = Date.now();
+
+    expect(await client.getPortfolio(ADDRESS)).toEqual(portfolioFixture);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  it("retries requests that time out", async () => {
+    const client = createClient({
+      baseUrl: `${server.url.origin}/slow`,
+      timeoutMs: 50,
+    });
+    failuresLeft = 1;
+
+    expect(await client.getPortfolio(ADDRESS)).toEqual(portfolioFixture);
+
+    failuresLeft = 2;
+    await expect(
+      createClient({
+        baseUrl: `${server.url.origin}/slow`,
+        timeoutMs: 50,
+        maxRetries: 1,
+      }).getPortfolio(ADDRESS)
+    ).rejects.toThrow("timed out after 50ms");
+  });
+
+  it.each([
+    [401, OctavUnauthorizedError],
+    [402, OctavInsufficientCreditsError],
+    [429, OctavRateLimitError],
+    [400, OctavRequestError],
+    [503, OctavUpstreamUnavailableError],
+  ])("maps %d responses to typed errors", async (status, errorClass) => {
+    const client = createClient({
+      baseUrl: `${server.url.origin}/status/${status}`,
+      maxRetries: 1,
+    });
+
+    await expect(client.getPortfolio(ADDRESS)).rejects.toBeInstanceOf(
+      errorClass
+    );
+  });
+
+  it("tracks usage and keeps the last credits for essential requests", async () => {
+    const client = createClient({ creditReserve: 1 });
+    credits = 2;
+
+    expect(await client.getCredits()).toBe(2);
+    await client.getPortfolio(ADDRESS, { essential: false, roomId: "room" });
+
+    await expect(
+      client.getPortfolio(ADDRESS, { essential: false })
+    ).rejects.toBeInstanceOf(OctavInsufficientCreditsError);
+    await client.getPortfolio(ADDRESS);
+
+    expect(client.usage.report()).toMatchObject({
+      totalRequests: 2,
+      byEndpoint: { "/v1/portfolio": 2 },
+      byRoom: { room: 1 },
+      remainingCredits: 2,
+      estimatedRemainingCredits: 0,
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatPortfolioHistoryResponse,
+  resolveHistoryRange,
+} from "../actions/getPortfolioHistory";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import { formatDate } from "../utils/dateRange";
+import { computePortfolioPerformance } from "../utils/performance";
+
+const snapshot = (
+  chains: Record<string, number>,
+  protocols: Record<string, number>
+) =>
+  octavPortfolioBalanceSchema.parse({
+    address: "0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+    networth: String(Object.values(chains).reduce((a, b) => a + b, 0)),
+    chains: Object.fromEntries(
+      Object.entries(chains).map(([key, value]) => [
+        key,
+        { key, name: key.toUpperCase(), value },
+      ])
+    ),
+    assetByProtocols: Object.fromEntries(
+      Object.entries(protocols).map(([key, value]) => [
+        key,
+        { key, name: key.toUpperCase(), value, chains: {} },
+      ])
+    ),
+  });
+
+describe("computePortfolioPerformance", () => {
+  const performance = computePortfolioPerformance(
+    snapshot({ ethereum: 1000, arbitrum: 500 }, { wallet: 1000, aave: 500 }),
+    snapshot({ ethereum: 1500, base: 200 }, { wallet: 1200, aave: 500, gmx: 0 })
+  );
+
+  it("computes the net worth change", () => {
+    expect(performance.startNetworth).toBe(1500);
+    expect(performance.endNetworth).toBe(1700);
+    expect(performance.change).toBe(200);
+    expect(performance.changePercent).toBeCloseTo(13.33, 2);
+  });
+
+  it("ranks chains from best to worst, including added and removed ones", () => {
+    expect(
+      performance.chains.map((chain) => [chain.key, chain.change])
+    ).toEqual([
+      ["ethereum", 500],
+      ["base", 200],
+      ["arbitrum", -500],
+    ]);
+    expect(performance.chains[1].changePercent).toBeNull();
+  });
+
+  it("renders best and worst performers", () => {
+    const text = formatPortfolioHistoryResponse(
+      ["0xEF7F2e81EA14538858d962df34eB1bFDa83da395"],
+      {
+        startDate: new Date("2025-01-01T00:00:00Z"),
+        endDate: new Date("2025-03-01T00:00:00Z"),
+      },
+      performance
+    );
+
+    expect(text).toContain("Period: 2025-01-01 → 2025-03-01");
+    expect(text).toContain("Change: +$200.00 (+13.33%)");
+    expect(text).toContain("ETHEREUM: +$500.00 (+50.00%)");
+    expect(text).toContain("ARBITRUM: -$500.00 (-100.00%)");
+  });
+});
+
+describe("resolveHistoryRange", () => {
+  const now = new Date("2025-03-15T12:00:00Z");
+
+  it("defaults to the last 30 days", () => {
+    const { startDate, endDate } = resolveHistoryRange("how did it do?", now);
+    expect(formatDate(startDate)).toBe("2025-02-13");
+    expect(endDate).toEqual(now);
+  });
+
+  it("uses the period named in the message", () => {
+    const { startDate } = resolveHistoryRange("performance since January", now);
+    expect(formatDate(startDate)).toBe("2025-01-01");
+  });
+});
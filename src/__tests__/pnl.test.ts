@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { formatPnlResponse } from "../actions/getPnl";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import { USD } from "../utils/currency";
+import { computePnlReport } from "../utils/pnl";
+
+const entry = (
+  key: string,
+  value: number,
+  costBasis: number,
+  closedPnl: number,
+  openPnl: number
+) => ({
+  key,
+  name: key.toUpperCase(),
+  value: String(value),
+  totalCostBasis: String(costBasis),
+  totalClosedPnl: String(closedPnl),
+  totalOpenPnl: String(openPnl),
+});
+
+const portfolio = octavPortfolioBalanceSchema.parse({
+  address: "0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+  networth: "1800",
+  chains: {
+    ethereum: entry("ethereum", 1200, 1000, 100, 200),
+    arbitrum: entry("arbitrum", 600, 800, 0, -200),
+  },
+  assetByProtocols: {
+    wallet: { ...entry("wallet", 1800, 1800, 100, 0), chains: {} },
+  },
+});
+
+describe("computePnlReport", () => {
+  const report = computePnlReport(portfolio);
+
+  it("sums cost basis and PnL", () => {
+    expect(report.totals.costBasis).toBe(1800);
+    expect(report.totals.realizedPnl).toBe(100);
+    expect(report.totals.unrealizedPnl).toBe(0);
+    expect(report.totals.returnOnCostBasis).toBeCloseTo(5.56, 2);
+  });
+
+  it("ranks chains from winners to losers", () => {
+    expect(report.chains.map((chain) => chain.key)).toEqual([
+      "ethereum",
+      "arbitrum",
+    ]);
+    expect(report.chains[0].totalPnl).toBe(300);
+    expect(report.chains[0].returnOnCostBasis).toBe(30);
+    expect(report.chains[1].returnOnCostBasis).toBe(-25);
+  });
+
+  it("renders winners and losers", () => {
+    const text = formatPnlResponse([portfolio.address], report);
+
+    expect(text).toContain("Total PnL: +$100.00");
+    expect(text).toContain("Top winners: ETHEREUM (+$300.00)");
+    expect(text).toContain("Top losers: ARBITRUM (-$200.00)");
+  });
+
+  it("follows the number format it is given", () => {
+    const text = formatPnlResponse([portfolio.address], report, USD, {
+      negativeStyle: "parentheses",
+    });
+
+    expect(text).toContain("ARBITRUM: ($200.00)");
+    expect(formatPnlResponse([portfolio.address], report)).toContain(
+      "ARBITRUM: -$200.00"
+    );
+  });
+
+  it("shows values in the display currency", () => {
+    const text = formatPnlResponse([portfolio.address], report, {
+      code: "EUR",
+      rate: 0.5,
+      approximate: true,
+    });
+
+    expect(text).toContain("Profit & Loss (in EUR, approximate rate)");
+    expect(text).toContain("Total PnL: +€50.00");
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatPortfolioBalancesResponse,
+  portfolioBalancesFormatters,
+} from "../actions";
+import { OctavPortfolioBalance } from "../types";
+import {
+  NO_DISPLAY_LIMITS,
+  resolveDisplayLimits,
+  rollUpEntries,
+} from "../utils/displayLimits";
+import { detectOutputFormat, resolveOutputFormat } from "../utils/outputFormat";
+import { mergePortfolios } from "../utils/portfolio";
+
+const chain = (key: string, name: string, value: string) => ({
+  key,
+  name,
+  value,
+  totalCostBasis: "0",
+  totalClosedPnl: "0",
+  totalOpenPnl: "0",
+});
+
+const createPortfolio = (
+  address: string,
+  ethereumValue: number,
+  arbitrumValue: number
+): OctavPortfolioBalance => ({
+  address,
+  networth: String(ethereumValue + arbitrumValue),
+  chains: {
+    ethereum: chain("ethereum", "Ethereum", String(ethereumValue)),
+    arbitrum: chain("arbitrum", "Arbitrum", String(arbitrumValue)),
+  },
+  assetByProtocols: {
+    wallet: {
+      ...chain("wallet", "Wallet", String(ethereumValue + arbitrumValue)),
+      chains: {
+        ethereum: {
+          ...chain("ethereum", "Ethereum", String(ethereumValue)),
+          protocolPositions: {},
+        },
+        arbitrum: {
+          ...chain("arbitrum", "Arbitrum", String(arbitrumValue)),
+          protocolPositions: {},
+        },
+      },
+    },
+  },
+});
+
+const ADDRESS_A = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+const ADDRESS_B = "0x3f5CE5FBFe3E9af3971dD833D26bA9b5C936f0bE";
+
+describe("mergePortfolios", () => {
+  it("sums net worth, chains and protocols", () => {
+    const merged = mergePortfolios([
+      createPortfolio(ADDRESS_A, 100, 50),
+      createPortfolio(ADDRESS_B, 10, 5),
+    ]);
+
+    expect(Number(merged.networth)).toBe(165);
+    expect(Number(merged.chains.ethereum.value)).toBe(110);
+    expect(Number(merged.chains.arbitrum.value)).toBe(55);
+    expect(Number(merged.assetByProtocols.wallet.value)).toBe(165);
+    expect(Number(merged.assetByProtocols.wallet.chains.arbitrum.value)).toBe(
+      55
+    );
+  });
+
+  it("leaves the source portfolios untouched", () => {
+    const portfolio = createPortfolio(ADDRESS_A, 100, 50);
+    mergePortfolios([portfolio, createPortfolio(ADDRESS_B, 10, 5)]);
+
+    expect(portfolio.chains.ethereum.value).toBe("100");
+    expect(portfolio.assetByProtocols.wallet.chains.ethereum.value).toBe("100");
+  });
+});
+
+describe("formatPortfolioBalancesResponse", () => {
+  it("renders a single portfolio", () => {
+    const text = formatPortfolioBalancesResponse(
+      createPortfolio(ADDRESS_A, 100, 50)
+    );
+
+    expect(text).toContain(`Address: ${ADDRESS_A}`);
+    expect(text).toContain("Total Networth: $150.00");
+    expect(text).not.toContain("Aggregated");
+  });
+
+  it("renders an aggregated view followed by each wallet", () => {
+    const text = formatPortfolioBalancesResponse([
+      createPortfolio(ADDRESS_A, 100, 50),
+      createPortfolio(ADDRESS_B, 10, 5),
+    ]);
+
+    expect(text).toContain("Aggregated Portfolio Balances of 2 Wallets");
+    expect(text).toContain("Total Networth: $165.00");
+    expect(text).toContain("Wallet 1 of 2");
+    expect(text).toContain("Wallet 2 of 2");
+    expect(text.indexOf("Aggregated")).toBeLessThan(
+      text.indexOf("Wallet 1 of 2")
+    );
+  });
+
+  it("rolls dust up into an Other line", () => {
+    const portfolio = createPortfolio(ADDRESS_A, 100, 0.004);
+
+    expect(formatPortfolioBalancesResponse(portfolio)).toContain(
+      "Ethereum: $100.00\nOther (1 chain, $0.004)"
+    );
+    expect(
+      formatPortfolioBalancesResponse(
+        portfolio,
+        {},
+        undefined,
+        NO_DISPLAY_LIMITS
+      )
+    ).toContain("Arbitrum: $0.004");
+  });
+});
+
+describe("rollUpEntries", () => {
+  const entries = [
+    { key: "ethereum", name: "Ethereum", value: 50 },
+    { key: "base", name: "Base", value: 0.2 },
+    { key: "arbitrum", name: "Arbitrum", value: 80 },
+    { key: "optimism", name: "Optimism", value: 10 },
+  ];
+
+  it("keeps the largest entries above the threshold in their order", () => {
+    const { shown, other } = rollUpEntries(entries, {
+      minValue: 1,
+      maxEntries: 2,
+    });
+
+    expect(shown.map((entry) => entry.key)).toEqual(["ethereum", "arbitrum"]);
+    expect(other).toEqual({ count: 2, value: 10.2 });
+  });
+
+  it("keeps everything without limits", () => {
+    expect(rollUpEntries(entries, NO_DISPLAY_LIMITS)).toEqual({
+      shown: entries,
+      other: null,
+    });
+  });
+
+  it("reads the limits from the settings unless everything is asked for", () => {
+    const runtime = {
+      getSetting: (key: string) =>
+        ({ OCTAV_DUST_THRESHOLD_USD: "5", OCTAV_MAX_DISPLAY_ENTRIES: "3" })[
+          key
+        ],
+    } as never;
+
+    expect(resolveDisplayLimits(runtime, "show my portfolio")).toEqual({
+      minValue: 5,
+      maxEntries: 3,
+    });
+    expect(
+      resolveDisplayLimits(runtime, "show all chains of my portfolio")
+    ).toEqual(NO_DISPLAY_LIMITS);
+  });
+});
+
+describe("portfolioBalancesFormatters", () => {
+  const portfolios = [
+    createPortfolio(ADDRESS_A, 100, 50),
+    createPortfolio(ADDRESS_B, 10, 5),
+  ];
+
+  it("renders Markdown tables with shares of net worth", () => {
+    const text = portfolioBalancesFormatters.markdown({
+      portfolios: [portfolios[0]],
+    });
+
+    expect(text).toContain("| Chain | Value (USD) | Share |");
+    expect(text).toContain("| Ethereum | $100.00 | 66.67% |");
+    expect(text).toContain("| Wallet | $150.00 | 100.00% |");
+  });
+
+  it("renders an aggregated Markdown section followed by each wallet", () => {
+    const text = portfolioBalancesFormatters.markdown({ portfolios });
+
+    expect(text).toContain("### 📈 Aggregated Portfolio Balances of 2 Wallets");
+    expect(text).toContain("### 👛 Wallet 2 of 2");
+  });
+
+  it("renders a compact one-liner", () => {
+    const text = portfolioBalancesFormatters.compact({
+      portfolios,
+      labels: { [ADDRESS_A.toLowerCase()]: "treasury" },
+    });
+
+    expect(text).not.toContain("\n");
+    expect(text).toBe(
+      `treasury (${ADDRESS_A}), ${ADDRESS_B}: $165.00 · Chains: Ethereum 66.67%, Arbitrum 33.33% · Protocols: Wallet 100.00%`
+    );
+  });
+
+  it("renders the portfolios as JSON", () => {
+    const json = JSON.parse(portfolioBalancesFormatters.json({ portfolios }));
+
+    expect(json.addresses).toEqual([ADDRESS_A, ADDRESS_B]);
+    expect(Number(json.totalNetworth)).toBe(165);
+    expect(json.portfolios).toEqual(portfolios);
+  });
+});
+
+describe("resolveOutputFormat", () => {
+  it("detects the format asked for in a message", () => {
+    expect(detectOutputFormat("give me the portfolio as a table")).toBe(
+      "markdown"
+    );
+    expect(detectOutputFormat("portfolio in one line")).toBe("compact");
+    expect(detectOutputFormat("portfolio as JSON")).toBe("json");
+    expect(detectOutputFormat("show my portfolio")).toBeUndefined();
+  });
+
+  it("falls back to the configured format, then plain text", () => {
+    const runtime = {
+      getSetting: (key: string) =>
+        key === "OCTAV_OUTPUT_FORMAT" ? "compact" : undefined,
+    } as any;
+
+    expect(resolveOutputFormat(runtime, "show my portfolio")).toBe("compact");
+    expect(resolveOutputFormat(runtime, "portfolio as json")).toBe("json");
+    expect(resolveOutputFormat(undefined, "show my portfolio")).toBe("text");
+  });
+});
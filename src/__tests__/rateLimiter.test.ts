@@ -0,0 +1,35 @@
+import { describe, expect, it } from "bun:test";
+import { TokenBucket } from "../services";
+
+const createBucket = (capacity: number, refillPerMinute: number) => {
+  let now = 0;
+  const waits: number[] = [];
+  const bucket = new TokenBucket(
+    capacity,
+    refillPerMinute,
+    () => now,
+    async (ms) => {
+      waits.push(ms);
+      now += ms;
+    }
+  );
+  return { bucket, waits };
+};
+
+describe("TokenBucket", () => {
+  it("allows bursts up to its capacity without waiting", async () => {
+    const { bucket, waits } = createBucket(3, 60);
+
+    await Promise.all([bucket.acquire(), bucket.acquire(), bucket.acquire()]);
+
+    expect(waits).toEqual([]);
+  });
+
+  it("spaces requests once the bucket is empty", async () => {
+    const { bucket, waits } = createBucket(1, 60);
+
+    await Promise.all([bucket.acquire(), bucket.acquire(), bucket.acquire()]);
+
+    expect(waits).toEqual([1000, 1000]);
+  });
+});
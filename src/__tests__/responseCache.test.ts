@@ -0,0 +1,105 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { ResponseCache, type CacheStore } from "../services";
+import { isRefreshRequested } from "../utils/refresh";
+import { setupLoggerSpies } from "./test-utils";
+
+const createStore = () => {
+  const entries = new Map<string, unknown>();
+  const store = {
+    getCache: async (key: string) => entries.get(key),
+    setCache: async (key: string, value: unknown) => {
+      entries.set(key, value);
+      return true;
+    },
+  } as CacheStore;
+  return { entries, store };
+};
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+describe("ResponseCache", () => {
+  it("expires entries after their TTL", async () => {
+    let now = 0;
+    const cache = new ResponseCache(undefined, () => now);
+    let calls = 0;
+    const fetcher = async () => ++calls;
+
+    expect(await cache.getOrFetch("key", 1000, fetcher)).toBe(1);
+    now = 999;
+    expect(await cache.getOrFetch("key", 1000, fetcher)).toBe(1);
+    now = 1000;
+    expect(await cache.getOrFetch("key", 1000, fetcher)).toBe(2);
+  });
+
+  it("coalesces concurrent requests for the same key", async () => {
+    const cache = new ResponseCache();
+    let calls = 0;
+    const fetcher = async () => {
+      const call = ++calls;
+      await Bun.sleep(5);
+      return call;
+    };
+
+    const results = await Promise.all([
+      cache.getOrFetch("key", 0, fetcher),
+      cache.getOrFetch("key", 0, fetcher),
+      cache.getOrFetch("other", 0, fetcher),
+    ]);
+
+    expect(results).toEqual([1, 1, 2]);
+    expect(await cache.getOrFetch("key", 0, fetcher)).toBe(3);
+  });
+
+  it("does not cache failures", async () => {
+    const cache = new ResponseCache();
+
+    await expect(
+      cache.getOrFetch("key", 1000, async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(await cache.getOrFetch("key", 1000, async () => "ok")).toBe("ok");
+  });
+
+  it("does not cache requests started before a clear", async () => {
+    const cache = new ResponseCache();
+    let calls = 0;
+    const fetcher = async () => {
+      const call = ++calls;
+      await Bun.sleep(5);
+      return call;
+    };
+
+    const stale = cache.getOrFetch("key", 60_000, fetcher);
+    cache.clear();
+    const fresh = cache.getOrFetch("key", 60_000, fetcher);
+
+    expect(await stale).toBe(1);
+    expect(await fresh).toBe(2);
+    expect(await cache.getOrFetch("key", 60_000, fetcher)).toBe(2);
+  });
+
+  it("reads entries persisted by a previous instance", async () => {
+    const { entries, store } = createStore();
+
+    await new ResponseCache(store).getOrFetch("key", 60_000, async () => "a");
+    expect([...entries.keys()]).toEqual(["octav:key"]);
+
+    const restored = await new ResponseCache(store).getOrFetch(
+      "key",
+      60_000,
+      async () => "b"
+    );
+    expect(restored).toBe("a");
+  });
+});
+
+describe("isRefreshRequested", () => {
+  it("detects requests for fresh data", () => {
+    expect(isRefreshRequested("refresh portfolio for 0x…")).toBe(true);
+    expect(isRefreshRequested("show fresh balances")).toBe(true);
+    expect(isRefreshRequested("show my portfolio")).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "bun:test";
+import { formatPortfolioRiskResponse } from "../actions/analyzePortfolioRisk";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import { computePortfolioRisk, concentrationIndex } from "../utils/risk";
+
+const asset = (symbol: string, value: number) => ({
+  symbol,
+  balance: value,
+  value,
+});
+
+const protocol = (
+  key: string,
+  name: string,
+  assets: ReturnType<typeof asset>[]
+) => {
+  const value = assets.reduce((sum, entry) => sum + entry.value, 0);
+  return {
+    key,
+    name,
+    value,
+    chains: {
+      ethereum: {
+        key: "ethereum",
+        name: "Ethereum",
+        value,
+        protocolPositions: {
+          [key]: { name, totalValue: value, assets },
+        },
+      },
+    },
+  };
+};
+
+const portfolio = octavPortfolioBalanceSchema.parse({
+  address: "0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+  networth: "10000",
+  chains: {
+    ethereum: { key: "ethereum", name: "Ethereum", value: 9000 },
+    arbitrum: { key: "arbitrum", name: "Arbitrum", value: 1000 },
+  },
+  assetByProtocols: {
+    wallet: protocol("wallet", "Wallet", [
+      asset("ETH", 1000),
+      asset("USDC", 2000),
+    ]),
+    aave: protocol("aave", "Aave", [asset("WETH", 6000), asset("DAI", 1000)]),
+  },
+});
+
+describe("concentrationIndex", () => {
+  it("ranges from spread to fully concentrated", () => {
+    expect(concentrationIndex([100])).toBe(10000);
+    expect(concentrationIndex([25, 25, 25, 25])).toBe(2500);
+    expect(concentrationIndex([])).toBe(0);
+  });
+});
+
+describe("computePortfolioRisk", () => {
+  const risk = computePortfolioRisk(portfolio);
+
+  it("computes allocation percentages and concentration", () => {
+    expect(risk.chains.map((chain) => [chain.key, chain.percent])).toEqual([
+      ["ethereum", 90],
+      ["arbitrum", 10],
+    ]);
+    expect(risk.chainConcentration).toBeCloseTo(8200);
+    expect(risk.protocolConcentration).toBeCloseTo(5800);
+  });
+
+  it("splits holdings between stablecoins and volatile assets", () => {
+    expect(risk.stablecoinValue).toBe(3000);
+    expect(risk.volatileValue).toBe(7000);
+    expect(risk.stablecoinPercent).toBe(30);
+  });
+
+  it("reports the largest protocol other than the wallet", () => {
+    expect(risk.largestProtocol?.name).toBe("Aave");
+    expect(risk.largestProtocol?.percent).toBe(70);
+  });
+
+  it("flags exceeded thresholds", () => {
+    expect(risk.flags).toEqual([
+      "Aave holds 70.00% of net worth (limit 50%)",
+      "Ethereum holds 90.00% of net worth (limit 80%)",
+      "Chain concentration index is 8,200 (limit 2,500)",
+      "Protocol concentration index is 5,800 (limit 2,500)",
+    ]);
+
+    expect(
+      computePortfolioRisk(portfolio, {
+        maxProtocolPercent: 100,
+        maxChainPercent: 100,
+        maxConcentrationIndex: 10000,
+      }).flags
+    ).toEqual([]);
+  });
+
+  it("renders the health check", () => {
+    const text = formatPortfolioRiskResponse([portfolio.address], risk);
+
+    expect(text).toContain("Chain Concentration (HHI): 8,200");
+    expect(text).toContain(
+      "Largest Protocol Exposure: Aave 70.00% ($7,000.00)"
+    );
+    expect(text).toContain("Stablecoins: 30.00% ($3,000.00)");
+    expect(text).toContain("Volatile Assets: 70.00% ($7,000.00)");
+    expect(text).toContain("⚠️ Aave holds 70.00% of net worth (limit 50%)");
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatTransactionsResponse,
+  parseTransactionsQuery,
+} from "../actions/getTransactions";
+import { octavTransactionsResponseSchema } from "../schemas";
+import { extractChains } from "../utils/chains";
+import { formatDate, parseDateRange } from "../utils/dateRange";
+import { messageIntentSchema } from "../utils/intent";
+
+const NOW = new Date("2025-03-15T12:00:00Z");
+
+const range = (text: string) => {
+  const { startDate, endDate } = parseDateRange(text, NOW);
+  return [startDate && formatDate(startDate), endDate && formatDate(endDate)];
+};
+
+describe("parseDateRange", () => {
+  it("understands relative periods", () => {
+    expect(range("what did it do last week")).toEqual([
+      "2025-03-08",
+      "2025-03-15",
+    ]);
+    expect(range("over the past 30 days")).toEqual([
+      "2025-02-13",
+      "2025-03-15",
+    ]);
+    expect(range("yesterday")).toEqual(["2025-03-14", "2025-03-15"]);
+    expect(range("this month")).toEqual(["2025-03-01", "2025-03-15"]);
+  });
+
+  it("understands absolute dates", () => {
+    expect(range("since January")).toEqual(["2025-01-01", "2025-03-15"]);
+    expect(range("since december")).toEqual(["2024-12-01", "2025-03-15"]);
+    expect(range("from 2024-06-01 to 2024-07-01")).toEqual([
+      "2024-06-01",
+      "2024-07-01",
+    ]);
+    expect(range("between Feb 3 and Feb 10")).toEqual([
+      "2025-02-03",
+      "2025-02-10",
+    ]);
+  });
+
+  it("resolves month names relative to the end of the range", () => {
+    expect(range("from March to June")).toEqual(["2024-03-01", "2024-06-01"]);
+    expect(range("from June to March")).toEqual(["2024-06-01", "2025-03-01"]);
+  });
+
+  it("rejects ranges that end before they start", () => {
+    expect(() => parseDateRange("from 2024-07-01 to 2024-06-01", NOW)).toThrow(
+      "The period ends on 2024-06-01, before it starts on 2024-07-01"
+    );
+  });
+
+  it("returns an empty range without a time reference", () => {
+    expect(parseDateRange("show the transactions", NOW)).toEqual({});
+    expect(
+      parseDateRange("transactions from decentralized exchanges", NOW)
+    ).toEqual({});
+    expect(parseDateRange("calls from marketplace contracts", NOW)).toEqual({});
+  });
+});
+
+describe("extractChains", () => {
+  it("ignores chain names inside ENS names and Basenames", () => {
+    expect(extractChains("transactions of jesse.base.eth")).toEqual([]);
+    expect(extractChains("what did arbitrum.eth do?")).toEqual([]);
+    expect(extractChains("transactions on Arbitrum.")).toEqual(["arbitrum"]);
+  });
+
+  it("reads common words as chains only in chain context", () => {
+    expect(extractChains("what is the base value of my tokens")).toEqual([]);
+    expect(extractChains("scroll through the last swaps")).toEqual([]);
+    expect(extractChains("swaps on Base")).toEqual(["base"]);
+    expect(extractChains("fees on scroll network")).toEqual(["scroll"]);
+  });
+});
+
+describe("parseTransactionsQuery", () => {
+  it("reads pagination and filters", () => {
+    const query = parseTransactionsQuery(
+      "page 3 of the last 20 transactions on Arbitrum via uniswap",
+      NOW
+    );
+
+    expect(query.limit).toBe(20);
+    expect(query.offset).toBe(40);
+    expect(query.chains).toEqual(["arbitrum"]);
+    expect(query.protocols).toEqual(["uniswap"]);
+  });
+
+  it("takes the period and filters from the model's extraction", () => {
+    const query = parseTransactionsQuery(
+      "what did jesse.base.eth swap on aave in the first week of march?",
+      NOW,
+      messageIntentSchema.parse({
+        intent: "transactions",
+        chains: [],
+        protocols: ["Aave"],
+        dateRange: { start: "2025-03-01", end: "2025-03-07" },
+      })
+    );
+
+    expect(query.chains).toEqual([]);
+    expect(query.protocols).toEqual(["aave"]);
+    expect(query.startDate).toEqual(new Date("2025-03-01T00:00:00Z"));
+    expect(query.endDate).toEqual(new Date("2025-03-07T00:00:00Z"));
+  });
+
+  it("ignores words that do not name a protocol", () => {
+    expect(
+      parseTransactionsQuery("which protocols did 0xabc use", NOW).protocols
+    ).toEqual([]);
+    expect(
+      parseTransactionsQuery("transfers via the bridge", NOW).protocols
+    ).toEqual([]);
+  });
+
+  it("does not mistake a period for a limit", () => {
+    const query = parseTransactionsQuery(
+      "transactions of the last 7 days",
+      NOW
+    );
+
+    expect(query.limit).toBe(10);
+    expect(query.startDate && formatDate(query.startDate)).toBe("2025-03-08");
+  });
+});
+
+describe("formatTransactionsResponse", () => {
+  const transactions = octavTransactionsResponseSchema.parse([
+    {
+      hash: "0xabc",
+      timestamp: "1741996800",
+      chain: { key: "ethereum", name: "Ethereum" },
+      type: "SWAP",
+      protocol: { key: "uniswap", name: "Uniswap" },
+      feesFiat: "2.5",
+      assetsOut: [{ symbol: "ETH", balance: "1", value: "3000" }],
+      assetsIn: [{ symbol: "USDC", balance: "3000", value: "3000" }],
+    },
+  ]);
+  const query = {
+    addresses: ["0xEF7F2e81EA14538858d962df34eB1bFDa83da395"],
+    limit: 10,
+    offset: 0,
+  };
+
+  it("renders assets, fees and hashes", () => {
+    const text = formatTransactionsResponse(query, transactions);
+
+    expect(text).toContain(
+      "1. 2025-03-15 00:00 UTC · SWAP · Uniswap · Ethereum"
+    );
+    expect(text).toContain("Out: 1 ETH ($3,000.00)");
+    expect(text).toContain("In: 3,000 USDC ($3,000.00)");
+    expect(text).toContain("Fee: $2.50");
+    expect(text).toContain("Hash: 0xabc");
+  });
+
+  it("shows values in the display currency", () => {
+    const text = formatTransactionsResponse(
+      query,
+      transactions,
+      {},
+      {
+        code: "EUR",
+        rate: 0.9,
+        approximate: true,
+      }
+    );
+
+    expect(text).toContain("Transactions (in EUR, approximate rate)");
+    expect(text).toContain("Out: 1 ETH (€2,700.00)");
+    expect(text).toContain("Fee: €2.25");
+  });
+});
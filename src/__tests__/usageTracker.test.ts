@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { logger } from "@elizaos/core";
+import { formatCreditsResponse } from "../actions/getCredits";
+import { UsageTracker } from "../services";
+import { setupLoggerSpies } from "./test-utils";
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+const warnings = () =>
+  (logger.warn as unknown as { mock: { calls: unknown[][] } }).mock.calls
+    .map(([message]) => String(message))
+    .filter((message) => message.startsWith("[OctavUsage]"));
+
+describe("UsageTracker", () => {
+  it("counts requests per endpoint, agent and room", () => {
+    const tracker = new UsageTracker();
+
+    tracker.record("/v1/portfolio", { agentId: "agent", roomId: "a" });
+    tracker.record("/v1/portfolio", { agentId: "agent", roomId: "b" });
+    tracker.record("/v1/transactions", { agentId: "agent", roomId: "a" });
+
+    expect(tracker.report()).toMatchObject({
+      totalRequests: 3,
+      byEndpoint: { "/v1/portfolio": 2, "/v1/transactions": 1 },
+      byAgent: { agent: 3 },
+      byRoom: { a: 2, b: 1 },
+    });
+  });
+
+  it("warns once per threshold crossed", () => {
+    const tracker = new UsageTracker([10, 5]);
+    const before = warnings().length;
+
+    tracker.updateCredits(11);
+    tracker.record("/v1/portfolio");
+    tracker.record("/v1/portfolio");
+    expect(warnings().slice(before)).toEqual([
+      "[OctavUsage] - Only 10 Octav credits left (threshold: 10)",
+    ]);
+
+    tracker.updateCredits(5);
+    tracker.record("/v1/portfolio");
+    expect(warnings().slice(before)).toHaveLength(2);
+  });
+
+  it("holds back non-essential requests at the reserve", () => {
+    const tracker = new UsageTracker([], 1);
+    expect(tracker.allows(false)).toBe(true);
+
+    tracker.updateCredits(2);
+    expect(tracker.allows(false)).toBe(true);
+    tracker.record("/v1/portfolio");
+    expect(tracker.allows(false)).toBe(false);
+    expect(tracker.allows(true)).toBe(true);
+  });
+});
+
+describe("formatCreditsResponse", () => {
+  it("lists remaining credits and usage", () => {
+    const tracker = new UsageTracker();
+    tracker.updateCredits(42);
+    tracker.record("/v1/portfolio", { roomId: "room" });
+
+    const text = formatCreditsResponse(tracker.report());
+
+    expect(text).toContain("Remaining Credits: 42");
+    expect(text).toContain("/v1/portfolio: 1");
+    expect(text).toContain("room: 1");
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "bun:test";
+import { formatWalletComparisonResponse } from "../actions/compareWallets";
+import { octavPortfolioBalanceSchema } from "../schemas";
+import { formatTable } from "../utils/format";
+import { computeWalletComparison } from "../utils/walletComparison";
+
+const TREASURY = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+const WHALE = "0x3f5CE5FBFe3E9af3971dD833D26bA9b5C936f0bE";
+
+const portfolio = (
+  address: string,
+  chains: Record<string, number>,
+  protocols: Record<string, number>
+) =>
+  octavPortfolioBalanceSchema.parse({
+    address,
+    networth: String(Object.values(chains).reduce((a, b) => a + b, 0)),
+    chains: Object.fromEntries(
+      Object.entries(chains).map(([key, value]) => [
+        key,
+        { key, name: key.toUpperCase(), value },
+      ])
+    ),
+    assetByProtocols: Object.fromEntries(
+      Object.entries(protocols).map(([key, value]) => [
+        key,
+        { key, name: key.toUpperCase(), value, chains: {} },
+      ])
+    ),
+  });
+
+describe("computeWalletComparison", () => {
+  const comparison = computeWalletComparison([
+    portfolio(
+      TREASURY,
+      { ethereum: 800, arbitrum: 200 },
+      { wallet: 600, aave: 400 }
+    ),
+    portfolio(WHALE, { ethereum: 3000, base: 1000 }, { aave: 1000, gmx: 3000 }),
+  ]);
+
+  it("computes allocation percentages per wallet", () => {
+    const ethereum = comparison.chains.find((row) => row.key === "ethereum");
+    expect(ethereum?.values).toEqual([800, 3000]);
+    expect(ethereum?.percents).toEqual([80, 75]);
+
+    const base = comparison.chains.find((row) => row.key === "base");
+    expect(base?.percents).toEqual([0, 25]);
+  });
+
+  it("orders rows by combined value", () => {
+    expect(comparison.protocols.map((row) => row.key)).toEqual([
+      "gmx",
+      "aave",
+      "wallet",
+    ]);
+  });
+
+  it("finds the chains and protocols every wallet holds", () => {
+    expect(comparison.sharedChains).toEqual([
+      { key: "ethereum", name: "ETHEREUM" },
+    ]);
+    expect(comparison.sharedProtocols).toEqual([{ key: "aave", name: "AAVE" }]);
+    expect(comparison.sharedProtocolPercents).toEqual([40, 25]);
+  });
+
+  it("renders a side-by-side table", () => {
+    const text = formatWalletComparisonResponse([TREASURY, WHALE], comparison, {
+      [TREASURY.toLowerCase()]: "treasury",
+    });
+
+    expect(text).toContain(`Wallet 1: treasury (${TREASURY})`);
+    expect(text).toContain("ETHEREUM | $800.00 (80.00%) | $3,000.00 (75.00%)");
+    expect(text).toContain("Shared Protocols: AAVE");
+    expect(text).toContain("Wallet 2 in Shared Protocols: 25.00%");
+  });
+});
+
+describe("formatTable", () => {
+  it("pads every column to its widest cell", () => {
+    expect(
+      formatTable([
+        ["Chain", "Value"],
+        ["Ethereum", "$1.00"],
+      ])
+    ).toBe("Chain    | Value\nEthereum | $1.00");
+  });
+});
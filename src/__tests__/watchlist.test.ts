@@ -0,0 +1,298 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import {
+  listWatchlistAction,
+  setPortfolioAlertAction,
+  unwatchAddressAction,
+  watchAddressAction,
+} from "../actions";
+import { formatWatchlistResponse } from "../actions/watchlist";
+import {
+  OctavClient,
+  PortfolioAlertService,
+  WatchlistService,
+} from "../services";
+import { OctavPortfolioBalance } from "../types";
+import {
+  createMockRuntime,
+  createTestMemory,
+  setupLoggerSpies,
+} from "./test-utils";
+
+const TREASURY = "0xEF7F2e81EA14538858d962df34eB1bFDa83da395";
+const VITALIK = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+
+const createRuntime = (
+  networths: Record<string, number>,
+  failing: string[] = []
+) => {
+  const requests: { addresses: string[]; essential?: boolean }[] = [];
+  const cache = new Map<string, unknown>();
+  const services: Record<string, unknown> = {};
+  const runtime = createMockRuntime({
+    getCache: (async (key: string) => cache.get(key)) as never,
+    setCache: (async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    }) as never,
+    deleteCache: (async (key: string) => cache.delete(key)) as never,
+    getService: ((type: string) => services[type] ?? null) as never,
+  });
+
+  services[OctavClient.serviceType] = {
+    getPortfolios: async (
+      addresses: string[],
+      { essential }: { essential?: boolean } = {}
+    ) => {
+      requests.push({ addresses, essential });
+      if (addresses.some((address) => failing.includes(address))) {
+        throw new Error("Octav is unavailable");
+      }
+      return addresses.map(
+        (address): OctavPortfolioBalance => ({
+          address: address.toLowerCase(),
+          networth: String(networths[address] ?? 0),
+          chains: {},
+          assetByProtocols: {},
+        })
+      );
+    },
+  };
+  const watchlist = new WatchlistService(runtime, { intervalMs: 0 });
+  services[WatchlistService.serviceType] = watchlist;
+  const alerts = new PortfolioAlertService(runtime);
+  services[PortfolioAlertService.serviceType] = alerts;
+
+  return { runtime, watchlist, alerts, cache, requests };
+};
+
+beforeAll(() => {
+  setupLoggerSpies();
+});
+
+describe("WatchlistService", () => {
+  it("snapshots watched addresses and keeps the latest ones", async () => {
+    const networths = { [TREASURY]: 100 };
+    const { watchlist } = createRuntime(networths);
+    watchlist.settings.maxSnapshots = 2;
+
+    await watchlist.watch([{ address: TREASURY, family: "evm" }], {
+      roomId: "room",
+    });
+    for (const networth of [100, 110, 120]) {
+      networths[TREASURY] = networth;
+      await watchlist.snapshot();
+    }
+
+    const snapshots = await watchlist.getSnapshots(TREASURY.toLowerCase());
+    expect(snapshots.map((s) => s.portfolio.networth)).toEqual(["110", "120"]);
+    expect(watchlist.list()).toMatchObject([
+      { address: TREASURY, roomId: "room" },
+    ]);
+  });
+
+  it("keeps the baseline of an address once its first snapshot is trimmed", async () => {
+    const networths = { [TREASURY]: 100 };
+    const { watchlist } = createRuntime(networths);
+    watchlist.settings.maxSnapshots = 2;
+
+    await watchlist.watch([{ address: TREASURY, family: "evm" }]);
+    for (const networth of [100, 110, 120]) {
+      networths[TREASURY] = networth;
+      await watchlist.snapshot();
+    }
+
+    const [entry] = watchlist.list();
+    const text = formatWatchlistResponse(
+      [entry],
+      [await watchlist.getSnapshots(TREASURY)]
+    );
+    expect(entry.baselineNetworth).toBe(100);
+    expect(text).toContain("Since Watched: +$20.00 (+20.00%)");
+  });
+
+  it("does not store snapshots of addresses unwatched meanwhile", async () => {
+    const { runtime, watchlist } = createRuntime({ [TREASURY]: 100 });
+    await watchlist.watch([{ address: TREASURY, family: "evm" }]);
+    const getCache = runtime.getCache;
+    runtime.getCache = (async (key: string) => {
+      await Bun.sleep(20);
+      return getCache(key);
+    }) as never;
+
+    const snapshotting = watchlist.snapshot();
+    await Bun.sleep(5);
+    await watchlist.unwatch([TREASURY]);
+    await snapshotting;
+
+    runtime.getCache = getCache;
+    expect(await watchlist.getSnapshots(TREASURY)).toEqual([]);
+  });
+
+  it("restores the watchlist from the runtime cache", async () => {
+    const { runtime, watchlist } = createRuntime({});
+    await watchlist.watch([{ address: TREASURY, family: "evm" }]);
+
+    const restored = await WatchlistService.start(runtime);
+    await restored.stop();
+
+    expect(restored.isWatched(TREASURY.toLowerCase())).toBe(true);
+  });
+
+  it("keeps snapshotting after a failed batch", async () => {
+    const addresses = Array.from(
+      { length: 11 },
+      (_, i) => `0x${String(i).padStart(40, "0")}`
+    );
+    const { watchlist, requests } = createRuntime({}, [addresses[0]]);
+    await watchlist.watch(
+      addresses.map((address) => ({ address, family: "evm" }))
+    );
+
+    const snapshots = await watchlist.snapshot();
+
+    expect(requests).toHaveLength(2);
+    expect(snapshots.map((snapshot) => snapshot.address)).toEqual([
+      addresses[10],
+    ]);
+  });
+
+  it("snapshots only the given addresses as essential requests", async () => {
+    const { watchlist, requests } = createRuntime({});
+    await watchlist.watch([
+      { address: TREASURY, family: "evm" },
+      { address: VITALIK, family: "evm" },
+    ]);
+
+    await watchlist.snapshotAddresses([VITALIK]);
+
+    expect(requests).toEqual([{ addresses: [VITALIK], essential: true }]);
+  });
+
+  it("forgets snapshots of unwatched addresses", async () => {
+    const { watchlist, cache } = createRuntime({ [TREASURY]: 1 });
+    await watchlist.watch([{ address: TREASURY, family: "evm" }]);
+    await watchlist.snapshot();
+
+    const removed = await watchlist.unwatch([TREASURY, VITALIK]);
+
+    expect(removed.map((entry) => entry.address)).toEqual([TREASURY]);
+    expect(watchlist.list()).toEqual([]);
+    expect([...cache.keys()]).toEqual(["octav:watchlist"]);
+  });
+});
+
+describe("watchlist actions", () => {
+  const run = (
+    action: typeof watchAddressAction,
+    runtime: never,
+    text: string
+  ) =>
+    action.handler(
+      runtime,
+      createTestMemory({ content: { text } }),
+      undefined,
+      {}
+    );
+
+  it("routes messages to the right action", async () => {
+    const validate = (action: typeof watchAddressAction, text: string) =>
+      action.validate(
+        createMockRuntime(),
+        createTestMemory({ content: { text } }),
+        undefined
+      );
+
+    expect(await validate(watchAddressAction, `watch ${TREASURY}`)).toBe(true);
+    expect(
+      await validate(watchAddressAction, `add ${TREASURY} to the watchlist`)
+    ).toBe(true);
+    expect(
+      await validate(watchAddressAction, `stop watching ${TREASURY}`)
+    ).toBe(false);
+    expect(
+      await validate(unwatchAddressAction, `stop watching ${TREASURY}`)
+    ).toBe(true);
+    expect(await validate(listWatchlistAction, "show the watchlist")).toBe(
+      true
+    );
+    expect(await validate(listWatchlistAction, `watch ${TREASURY}`)).toBe(
+      false
+    );
+  });
+
+  it("watches, lists and unwatches addresses", async () => {
+    const { runtime } = createRuntime({ [TREASURY]: 250 });
+
+    const watched = await run(
+      watchAddressAction,
+      runtime as never,
+      `watch ${TREASURY}`
+    );
+    expect(watched?.text).toContain(`Now watching ${TREASURY}`);
+
+    const listed = await run(
+      listWatchlistAction,
+      runtime as never,
+      "show the watchlist"
+    );
+    expect(listed?.text).toContain("Networth: $250.00");
+
+    const unwatched = await run(
+      unwatchAddressAction,
+      runtime as never,
+      `unwatch ${TREASURY}`
+    );
+    expect(unwatched?.text).toContain(`Stopped watching ${TREASURY}`);
+  });
+
+  it("snapshots only new addresses and keeps the watch when it fails", async () => {
+    const { runtime, watchlist, requests } = createRuntime({}, [VITALIK]);
+    await watchlist.watch([{ address: TREASURY, family: "evm" }]);
+
+    const watched = await run(
+      watchAddressAction,
+      runtime as never,
+      `watch ${TREASURY} and ${VITALIK}`
+    );
+
+    expect(watched?.success).toBe(true);
+    expect(watched?.text).toContain(`Now watching ${VITALIK}`);
+    expect(watched?.text).toContain("The first snapshot of 1 address failed");
+    expect(requests).toEqual([{ addresses: [VITALIK], essential: true }]);
+    expect(watchlist.isWatched(VITALIK)).toBe(true);
+  });
+
+  it("creates alert rules even when the first snapshot fails", async () => {
+    const { runtime, alerts } = createRuntime({}, [TREASURY]);
+
+    const created = await run(
+      setPortfolioAlertAction,
+      runtime as never,
+      `alert me if ${TREASURY} drops by more than 10%`
+    );
+
+    expect(created?.success).toBe(true);
+    expect(alerts.listRules()).toMatchObject([
+      { type: "networth_drop", address: TREASURY, baselineNetworth: undefined },
+    ]);
+  });
+
+  it("deletes alert rules of unwatched addresses", async () => {
+    const { runtime, alerts } = createRuntime({ [TREASURY]: 500 });
+
+    await run(
+      setPortfolioAlertAction,
+      runtime as never,
+      `alert me if ${TREASURY} drops by more than 10%`
+    );
+    expect(alerts.listRules()).toMatchObject([{ baselineNetworth: 500 }]);
+
+    const unwatched = await run(
+      unwatchAddressAction,
+      runtime as never,
+      `unwatch ${TREASURY}`
+    );
+    expect(unwatched?.text).toContain("Deleted 1 alert rule on it.");
+    expect(alerts.listRules()).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient, resolveDisplayCurrency } from "../services";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  USD,
+} from "../utils/currency";
+import {
+  formatNumber,
+  formatShare,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import { mergePortfolios } from "../utils/portfolio";
+import { isRefreshRequested } from "../utils/refresh";
+import {
+  Allocation,
+  computePortfolioRisk,
+  PortfolioRisk,
+  resolveRiskThresholds,
+} from "../utils/risk";
+
+export const analyzePortfolioRiskAction: Action = {
+  name: "ANALYZE_PORTFOLIO_RISK",
+  description:
+    "Analyze allocation and concentration risk of a portfolio: allocation percentages, Herfindahl index per chain and protocol, stablecoin share, largest protocol exposure and threshold flags",
+
+  similes: [
+    "ANALYZE_PORTFOLIO_RISK",
+    "PORTFOLIO_HEALTH_CHECK",
+    "RISK_CHECK",
+  ].map((s) => `OCTAV_${s}`),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const riskKeywords = [
+      "risk",
+      "concentration",
+      "concentrated",
+      "allocation",
+      "exposure",
+      "health check",
+      "diversif",
+      "stablecoin",
+    ];
+
+    const isMatch = riskKeywords.some((keyword) => content.includes(keyword));
+
+    logger.info(
+      `[ANALYZE_PORTFOLIO_RISK] Validation result: ${isMatch} (keywords checked: ${riskKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const references = await requireAddressReferences(
+        runtime,
+        message.content.text,
+        message
+      );
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[ANALYZE_PORTFOLIO_RISK] - Analyzing risk for addresses: ${addresses.join(", ")}`
+      );
+
+      const portfolios = await getOctavClient(runtime).getPortfolios(
+        addresses,
+        {
+          refresh: isRefreshRequested(message.content.text),
+          roomId: message.roomId,
+        }
+      );
+      const numberFormat = resolveNumberFormat(runtime);
+      const risk = computePortfolioRisk(
+        mergePortfolios(portfolios),
+        resolveRiskThresholds(runtime),
+        numberFormat
+      );
+      const formattedResponse = formatPortfolioRiskResponse(
+        references.map(formatAddressReference),
+        risk,
+        await resolveDisplayCurrency(runtime, message.content.text),
+        numberFormat
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Analyzed portfolio risk on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          chainConcentration: risk.chainConcentration,
+          protocolConcentration: risk.protocolConcentration,
+          stablecoinPercent: risk.stablecoinPercent,
+          flagCount: risk.flags.length,
+          formattedResponse,
+        },
+        data: {
+          actions: "ANALYZE_PORTFOLIO_RISK",
+          addresses,
+          risk,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[ANALYZE_PORTFOLIO_RISK] - Error analyzing portfolio risk: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "ANALYZE_PORTFOLIO_RISK",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "How concentrated is 0xEF7F2e81EA14538858d962df34eB1bFDa83da395? Give me a risk check",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me analyze the allocation and concentration risk of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 using Octav API",
+          actions: ["ANALYZE_PORTFOLIO_RISK"],
+        },
+      },
+    ],
+  ],
+};
+
+const formatAllocations = (
+  allocations: Allocation[],
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string =>
+  allocations
+    .map(
+      (allocation) =>
+        `${allocation.name}: ${formatShare(allocation.percent, numberFormat)} (${formatMoney(allocation.value, currency, numberFormat)})`
+    )
+    .join("\n");
+
+export const formatPortfolioRiskResponse = (
+  addresses: string[],
+  risk: PortfolioRisk,
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 🛡️ Portfolio Risk Analysis (in ${describeCurrency(currency)}) 🛡️ ===
+
+${addresses.length > 1 ? "Addresses" : "Address"}: ${addresses.join(", ")}
+Total Networth: ${formatMoney(risk.networth, currency, numberFormat)}
+
+Chain Concentration (HHI): ${formatNumber(risk.chainConcentration, 0, numberFormat)}
+Protocol Concentration (HHI): ${formatNumber(risk.protocolConcentration, 0, numberFormat)}
+Largest Protocol Exposure: ${risk.largestProtocol ? `${risk.largestProtocol.name} ${formatShare(risk.largestProtocol.percent, numberFormat)} (${formatMoney(risk.largestProtocol.value, currency, numberFormat)})` : "none"}
+Stablecoins: ${formatShare(risk.stablecoinPercent, numberFormat)} (${formatMoney(risk.stablecoinValue, currency, numberFormat)})
+Volatile Assets: ${formatShare(risk.stablecoinPercent === null ? null : 100 - risk.stablecoinPercent, numberFormat)} (${formatMoney(risk.volatileValue, currency, numberFormat)})
+
+Allocation per Chain:
+-----------------------------
+${risk.chains.length > 0 ? formatAllocations(risk.chains, currency, numberFormat) : "No data available for chains."}
+
+Allocation per Protocol:
+-----------------------------
+${risk.protocols.length > 0 ? formatAllocations(risk.protocols, currency, numberFormat) : "No data available for protocols."}
+
+Flags:
+-----------------------------
+${risk.flags.length > 0 ? risk.flags.map((flag) => `⚠️ ${flag}`).join("\n") : "No threshold exceeded."}
+
+=============================`;
+};
@@ -0,0 +1,327 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import {
+  getOctavClient,
+  OctavRequestOptions,
+  resolveDisplayCurrency,
+  WatchlistService,
+} from "../services";
+import { OctavPortfolioBalance } from "../types";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import { formatDate, parseDate, parseDateRange } from "../utils/dateRange";
+import { computePortfolioDiff, PortfolioDiff } from "../utils/diff";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  formatSignedMoney,
+  USD,
+} from "../utils/currency";
+import {
+  formatPercent,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import {
+  extractMessageIntent,
+  getIntentDateRange,
+  MessageIntent,
+} from "../utils/intent";
+import { mergePortfolios } from "../utils/portfolio";
+import { isRefreshRequested } from "../utils/refresh";
+
+const ISO_DATE_REGEX = /\b\d{4}-\d{2}-\d{2}\b/;
+
+export type PortfolioBaseline = {
+  portfolios: OctavPortfolioBalance[];
+  date: Date;
+  source: "watchlist" | "history";
+};
+
+/**
+ * Resolves the date to compare against: the start of the period the
+ * message names ("since yesterday", "last week", "2024-05-01"), read from
+ * the model's extraction when there is one, or a day ago by default.
+ */
+export const resolveComparisonDate = (
+  text: string,
+  now = new Date(),
+  intent: MessageIntent | null = null
+): Date => {
+  const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  if (intent) {
+    const { startDate, endDate } = getIntentDateRange(intent, now);
+    return startDate ?? endDate ?? dayAgo;
+  }
+
+  const { startDate } = parseDateRange(text, now);
+  const isoDate = text.match(ISO_DATE_REGEX)?.[0];
+
+  return startDate ?? (isoDate ? parseDate(isoDate, now) : undefined) ?? dayAgo;
+};
+
+/**
+ * Loads the portfolios to compare against, preferring the watchlist's own
+ * snapshots of that day, which cost no credits, over Octav's history.
+ */
+const loadBaseline = async (
+  runtime: IAgentRuntime,
+  addresses: string[],
+  date: Date,
+  options: OctavRequestOptions
+): Promise<PortfolioBaseline> => {
+  const watchlist = runtime.getService<WatchlistService>(
+    WatchlistService.serviceType
+  );
+
+  if (watchlist) {
+    const snapshots = await Promise.all(
+      addresses.map(async (address) =>
+        (await watchlist.getSnapshots(address)).find(
+          (snapshot) =>
+            formatDate(new Date(snapshot.timestamp)) === formatDate(date)
+        )
+      )
+    );
+
+    if (snapshots.every((snapshot) => snapshot !== undefined)) {
+      return {
+        portfolios: snapshots.map((snapshot) => snapshot!.portfolio),
+        date: new Date(
+          Math.min(...snapshots.map((snapshot) => snapshot!.timestamp))
+        ),
+        source: "watchlist",
+      };
+    }
+  }
+
+  return {
+    portfolios: await getOctavClient(runtime).getHistoricalPortfolios(
+      addresses,
+      date,
+      options
+    ),
+    date,
+    source: "history",
+  };
+};
+
+export const comparePortfolioAction: Action = {
+  name: "COMPARE_PORTFOLIO",
+  description:
+    "Compare the current portfolio of an address with an earlier snapshot: net worth delta, chains and protocols added or removed, and per-protocol changes by impact",
+
+  similes: [
+    "COMPARE_PORTFOLIO",
+    "PORTFOLIO_DIFF",
+    "WHAT_CHANGED_IN_PORTFOLIO",
+  ].map((s) => `OCTAV_${s}`),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const comparePortfolioKeywords = [
+      "changed",
+      "changes",
+      "diff",
+      "difference",
+      "compare",
+    ];
+
+    const isMatch = comparePortfolioKeywords.some((keyword) =>
+      content.includes(keyword)
+    );
+
+    logger.info(
+      `[COMPARE_PORTFOLIO] Validation result: ${isMatch} (keywords checked: ${comparePortfolioKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    const text = message.content.text ?? "";
+    try {
+      const references = await requireAddressReferences(runtime, text, message);
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[COMPARE_PORTFOLIO] - Comparing portfolios for addresses: ${addresses.join(", ")}`
+      );
+
+      const now = new Date();
+      const options = {
+        refresh: isRefreshRequested(text),
+        roomId: message.roomId,
+      };
+      const [baseline, current] = await Promise.all([
+        loadBaseline(
+          runtime,
+          addresses,
+          resolveComparisonDate(
+            text,
+            now,
+            await extractMessageIntent(runtime, text, now)
+          ),
+          options
+        ),
+        getOctavClient(runtime).getPortfolios(addresses, options),
+      ]);
+
+      const diff = computePortfolioDiff(
+        mergePortfolios(baseline.portfolios),
+        mergePortfolios(current)
+      );
+      const formattedResponse = formatPortfolioDiffResponse(
+        references.map(formatAddressReference),
+        baseline,
+        now,
+        diff,
+        await resolveDisplayCurrency(runtime, text),
+        resolveNumberFormat(runtime)
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Compared portfolio snapshots on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          networthChange: diff.change,
+          networthChangePercent: diff.changePercent,
+          formattedResponse,
+        },
+        data: {
+          actions: "COMPARE_PORTFOLIO",
+          addresses,
+          baselineDate: baseline.date.toISOString(),
+          baselineSource: baseline.source,
+          diff,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[COMPARE_PORTFOLIO] - Error comparing portfolios: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "COMPARE_PORTFOLIO",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What changed in 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 since yesterday?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me compare the portfolio of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 with yesterday's snapshot using Octav API",
+          actions: ["COMPARE_PORTFOLIO"],
+        },
+      },
+    ],
+  ],
+};
+
+const formatNames = (entries: { name: string }[]): string =>
+  entries.length > 0 ? entries.map((entry) => entry.name).join(", ") : "none";
+
+export const formatPortfolioDiffResponse = (
+  addresses: string[],
+  baseline: Pick<PortfolioBaseline, "date" | "source">,
+  now: Date,
+  diff: PortfolioDiff,
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 🔍 Portfolio Changes (in ${describeCurrency(currency)}) 🔍 ===
+
+${addresses.length > 1 ? "Addresses" : "Address"}: ${addresses.join(", ")}
+Compared: ${formatDate(baseline.date)} (${baseline.source === "watchlist" ? "watchlist snapshot" : "Octav history"}) → ${formatDate(now)} (now)
+
+Networth: ${formatMoney(diff.startNetworth, currency, numberFormat)} → ${formatMoney(diff.endNetworth, currency, numberFormat)}
+Change: ${formatSignedMoney(diff.change, currency, numberFormat)} (${formatPercent(diff.changePercent, numberFormat)})
+
+Chains Added: ${formatNames(diff.chainsAdded)}
+Chains Removed: ${formatNames(diff.chainsRemoved)}
+Protocols Added: ${formatNames(diff.protocolsAdded)}
+Protocols Removed: ${formatNames(diff.protocolsRemoved)}
+
+Protocol Changes (by impact):
+-----------------------------
+${
+  diff.protocolChanges.length > 0
+    ? diff.protocolChanges
+        .map(
+          (change) =>
+            `${change.name}: ${formatSignedMoney(change.change, currency, numberFormat)} (${formatPercent(change.changePercent, numberFormat)}) · ${formatMoney(change.startValue, currency, numberFormat)} → ${formatMoney(change.endValue, currency, numberFormat)}`
+        )
+        .join("\n")
+    : "No protocol changed in value."
+}
+
+=============================`;
+};
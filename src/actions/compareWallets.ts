@@ -0,0 +1,269 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, OctavInvalidAddressError, toUserMessage } from "../errors";
+import { getOctavClient, resolveDisplayCurrency } from "../services";
+import {
+  AddressLabels,
+  formatAddress,
+  requireAddressReferences,
+  toAddressLabels,
+} from "../utils/address";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  USD,
+} from "../utils/currency";
+import {
+  formatShare,
+  formatTable,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import { isRefreshRequested } from "../utils/refresh";
+import {
+  AllocationRow,
+  computeWalletComparison,
+  WalletComparison,
+} from "../utils/walletComparison";
+
+export const compareWalletsAction: Action = {
+  name: "COMPARE_WALLETS",
+  description:
+    "Compare two or more wallets side by side: net worth, chain and protocol allocation percentages, and the chains and protocols they share",
+
+  similes: ["COMPARE_WALLETS", "COMPARE_ADDRESSES", "WALLETS_SIDE_BY_SIDE"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const compareWalletsKeywords = [
+      "compare wallets",
+      "compare addresses",
+      "compare the wallets",
+      "side by side",
+      "side-by-side",
+      " vs ",
+      " vs. ",
+      "versus",
+      "overlap",
+    ];
+
+    const isMatch = compareWalletsKeywords.some((keyword) =>
+      content.includes(keyword)
+    );
+
+    logger.info(
+      `[COMPARE_WALLETS] Validation result: ${isMatch} (keywords checked: ${compareWalletsKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const references = await requireAddressReferences(
+        runtime,
+        message.content.text,
+        message
+      );
+      if (references.length < 2) {
+        throw new OctavInvalidAddressError(
+          "Comparing wallets needs at least two addresses",
+          references.map((reference) => reference.address)
+        );
+      }
+
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[COMPARE_WALLETS] - Comparing wallets: ${addresses.join(", ")}`
+      );
+
+      const portfolios = await getOctavClient(runtime).getPortfolios(
+        addresses,
+        {
+          refresh: isRefreshRequested(message.content.text),
+          roomId: message.roomId,
+        }
+      );
+      const comparison = computeWalletComparison(portfolios);
+      const formattedResponse = formatWalletComparisonResponse(
+        portfolios.map((portfolio) => portfolio.address),
+        comparison,
+        toAddressLabels(references),
+        await resolveDisplayCurrency(runtime, message.content.text),
+        resolveNumberFormat(runtime)
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Compared wallets on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          sharedChains: comparison.sharedChains.map((chain) => chain.name),
+          sharedProtocols: comparison.sharedProtocols.map(
+            (protocol) => protocol.name
+          ),
+          formattedResponse,
+        },
+        data: {
+          actions: "COMPARE_WALLETS",
+          addresses,
+          references,
+          comparison,
+          portfolios,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[COMPARE_WALLETS] - Error comparing wallets: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "COMPARE_WALLETS",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Compare wallets 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 and 0x3f5CE5FBFe3E9af3971dD833D26bA9b5C936f0bE side by side",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me compare the allocation of both wallets using Octav API",
+          actions: ["COMPARE_WALLETS"],
+        },
+      },
+    ],
+  ],
+};
+
+const formatAllocationCell = (
+  value: number,
+  percent: number | null,
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+) =>
+  `${formatMoney(value, currency, numberFormat)} (${formatShare(percent, numberFormat)})`;
+
+const formatAllocationTable = (
+  header: string[],
+  rows: AllocationRow[],
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string =>
+  formatTable([
+    header,
+    ...rows.map((row) => [
+      row.name,
+      ...row.values.map((value, index) =>
+        formatAllocationCell(value, row.percents[index], currency, numberFormat)
+      ),
+    ]),
+  ]);
+
+const formatNames = (entries: { name: string }[]): string =>
+  entries.length > 0 ? entries.map((entry) => entry.name).join(", ") : "none";
+
+export const formatWalletComparisonResponse = (
+  addresses: string[],
+  comparison: WalletComparison,
+  labels: AddressLabels = {},
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  const wallets = addresses.map((_, index) => `Wallet ${index + 1}`);
+
+  return `=== ⚖️ Wallet Comparison (in ${describeCurrency(currency)}) ⚖️ ===
+
+${addresses.map((address, index) => `${wallets[index]}: ${formatAddress(address, labels)}`).join("\n")}
+
+${formatTable([
+  ["", ...wallets],
+  [
+    "Total Networth",
+    ...comparison.networths.map(
+      (networth) => `${formatMoney(networth, currency, numberFormat)}`
+    ),
+  ],
+])}
+
+Allocation per Chain:
+-----------------------------
+${comparison.chains.length > 0 ? formatAllocationTable(["Chain", ...wallets], comparison.chains, currency, numberFormat) : "No data available for chains."}
+
+Allocation per Protocol:
+-----------------------------
+${comparison.protocols.length > 0 ? formatAllocationTable(["Protocol", ...wallets], comparison.protocols, currency, numberFormat) : "No data available for protocols."}
+
+Overlap:
+-----------------------------
+Shared Chains: ${formatNames(comparison.sharedChains)}
+Shared Protocols: ${formatNames(comparison.sharedProtocols)}
+${comparison.sharedProtocolPercents.map((percent, index) => `${wallets[index]} in Shared Protocols: ${formatShare(percent, numberFormat)}`).join("\n")}
+
+=============================`;
+};
@@ -0,0 +1,206 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Media,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient } from "../services";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import { formatDate } from "../utils/dateRange";
+import {
+  detectExportFormats,
+  PORTFOLIO_EXPORT_COLUMNS,
+  toCsv,
+  toFileAttachment,
+  toPortfolioExportRows,
+} from "../utils/export";
+import { isRefreshRequested } from "../utils/refresh";
+
+export const exportPortfolioAction: Action = {
+  name: "EXPORT_PORTFOLIO",
+  description:
+    "Export the full portfolio breakdown of addresses (chain, protocol, value, cost basis, open and closed PnL) as CSV and JSON files attached to the response",
+
+  similes: ["EXPORT_PORTFOLIO", "DOWNLOAD_PORTFOLIO", "PORTFOLIO_CSV"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const exportKeywords = [
+      "export",
+      "csv",
+      "spreadsheet",
+      "download",
+      "excel",
+    ];
+
+    const isMatch = exportKeywords.some((keyword) => content.includes(keyword));
+
+    logger.info(
+      `[EXPORT_PORTFOLIO] Validation result: ${isMatch} (keywords checked: ${exportKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const references = await requireAddressReferences(
+        runtime,
+        message.content.text,
+        message
+      );
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[EXPORT_PORTFOLIO] - Exporting portfolios for addresses: ${addresses.join(", ")}`
+      );
+
+      const portfolios = await getOctavClient(runtime).getPortfolios(
+        addresses,
+        {
+          refresh: isRefreshRequested(message.content.text),
+          roomId: message.roomId,
+        }
+      );
+      const rows = toPortfolioExportRows(portfolios);
+      const formats = detectExportFormats(message.content.text);
+      const fileName = `octav-portfolio-${formatDate(new Date())}`;
+      const attachments: Media[] = formats.map((format) =>
+        format === "csv"
+          ? toFileAttachment(
+              `${fileName}.csv`,
+              "text/csv",
+              toCsv(PORTFOLIO_EXPORT_COLUMNS, rows)
+            )
+          : toFileAttachment(
+              `${fileName}.json`,
+              "application/json",
+              JSON.stringify(rows, null, 2)
+            )
+      );
+      const formattedResponse = formatExportResponse(
+        references.map(formatAddressReference),
+        rows.length,
+        attachments
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Exported portfolio on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          attachments,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          rowCount: rows.length,
+          files: attachments.map((attachment) => attachment.title),
+          formattedResponse,
+        },
+        data: {
+          actions: "EXPORT_PORTFOLIO",
+          addresses,
+          columns: PORTFOLIO_EXPORT_COLUMNS,
+          rows,
+          attachments,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[EXPORT_PORTFOLIO] - Error exporting portfolio: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "EXPORT_PORTFOLIO",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Export the portfolio of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 to CSV",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Here is the portfolio breakdown of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 as a CSV file",
+          actions: ["EXPORT_PORTFOLIO"],
+        },
+      },
+    ],
+  ],
+};
+
+export const formatExportResponse = (
+  addresses: string[],
+  rowCount: number,
+  attachments: Pick<Media, "title">[]
+): string => {
+  return `=== 📤 Portfolio Export 📤 ===
+
+${addresses.length > 1 ? "Addresses" : "Address"}: ${addresses.join(", ")}
+Rows: ${rowCount} (one per address, protocol and chain)
+Columns: ${PORTFOLIO_EXPORT_COLUMNS.join(", ")}
+Files: ${attachments.map((attachment) => attachment.title).join(", ")}
+
+=============================`;
+};
@@ -0,0 +1,182 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient, type UsageReport } from "../services";
+import {
+  formatNumber,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+
+export const getCreditsAction: Action = {
+  name: "GET_OCTAV_CREDITS",
+  description:
+    "Report the Octav API credits left and how many requests the agent made per endpoint and per room",
+
+  similes: ["GET_CREDITS", "GET_API_CREDITS", "GET_API_USAGE"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const creditsKeywords = [
+      "credit",
+      "api usage",
+      "octav usage",
+      "quota",
+      "requests left",
+    ];
+
+    const isMatch = creditsKeywords.some((keyword) =>
+      content.includes(keyword)
+    );
+
+    logger.info(
+      `[GET_OCTAV_CREDITS] Validation result: ${isMatch} (keywords checked: ${creditsKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("[GET_OCTAV_CREDITS] - Fetching Octav credits");
+
+      const client = getOctavClient(runtime);
+      const remainingCredits = await client.getCredits();
+      const usage = client.usage.report();
+      const formattedResponse = formatCreditsResponse(
+        usage,
+        resolveNumberFormat(runtime)
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Fetched API credits on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            remainingCredits,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          remainingCredits,
+          totalRequests: usage.totalRequests,
+          formattedResponse,
+        },
+        data: {
+          actions: "GET_OCTAV_CREDITS",
+          remainingCredits,
+          usage,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[GET_OCTAV_CREDITS] - Error fetching credits: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "GET_OCTAV_CREDITS",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "How many Octav credits do we have left?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me check the remaining API credits on Octav",
+          actions: ["GET_OCTAV_CREDITS"],
+        },
+      },
+    ],
+  ],
+};
+
+const formatCounts = (counts: Record<string, number>): string => {
+  const entries = Object.entries(counts).sort(([, a], [, b]) => b - a);
+  if (entries.length === 0) return "No requests yet.";
+  return entries.map(([key, count]) => `${key}: ${count}`).join("\n");
+};
+
+export const formatCreditsResponse = (
+  usage: UsageReport,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 💳 Octav API Credits 💳 ===
+
+Remaining Credits: ${usage.remainingCredits === undefined ? "unknown" : formatNumber(usage.remainingCredits, 0, numberFormat)}
+Checked At: ${usage.checkedAt ? new Date(usage.checkedAt).toISOString() : "never"}
+Requests Since Start: ${usage.totalRequests}
+
+Requests per Endpoint:
+-----------------------------
+${formatCounts(usage.byEndpoint)}
+
+Requests per Agent:
+-----------------------------
+${formatCounts(usage.byAgent)}
+
+Requests per Room:
+-----------------------------
+${formatCounts(usage.byRoom)}
+
+=============================`;
+};
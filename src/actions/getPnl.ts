@@ -0,0 +1,236 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient, resolveDisplayCurrency } from "../services";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  formatSignedMoney,
+  USD,
+} from "../utils/currency";
+import {
+  formatPercent,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import { computePnlReport, PnlEntry, PnlReport } from "../utils/pnl";
+import { mergePortfolios } from "../utils/portfolio";
+import { isRefreshRequested } from "../utils/refresh";
+
+const RANKING_SIZE = 3;
+
+export const getPnlAction: Action = {
+  name: "GET_PNL",
+  description:
+    "Report realized and unrealized PnL, cost basis and return on cost basis of an address per chain and per protocol",
+
+  similes: ["GET_PNL", "GET_PROFIT_AND_LOSS", "GET_COST_BASIS"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const pnlKeywords = [
+      "pnl",
+      "p&l",
+      "profit",
+      "loss",
+      "cost basis",
+      "realized",
+      "winners",
+      "losers",
+    ];
+
+    const isMatch = pnlKeywords.some((keyword) => content.includes(keyword));
+
+    logger.info(
+      `[GET_PNL] Validation result: ${isMatch} (keywords checked: ${pnlKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const references = await requireAddressReferences(
+        runtime,
+        message.content.text,
+        message
+      );
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[GET_PNL] - Fetching PnL for addresses: ${addresses.join(", ")}`
+      );
+
+      const portfolios = await getOctavClient(runtime).getPortfolios(
+        addresses,
+        {
+          refresh: isRefreshRequested(message.content.text),
+          roomId: message.roomId,
+        }
+      );
+      const report = computePnlReport(mergePortfolios(portfolios));
+      const formattedResponse = formatPnlResponse(
+        references.map(formatAddressReference),
+        report,
+        await resolveDisplayCurrency(runtime, message.content.text),
+        resolveNumberFormat(runtime)
+      );
+
+      const sucessfullActionMessage = "Sucessfully Fetched PnL on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          totalPnl: report.totals.totalPnl,
+          returnOnCostBasis: report.totals.returnOnCostBasis,
+          formattedResponse,
+        },
+        data: {
+          actions: "GET_PNL",
+          addresses,
+          report,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(`[GET_PNL] - Error fetching PnL: ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "GET_PNL",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What is the PnL of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me fetch the realized and unrealized PnL of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 using Octav API",
+          actions: ["GET_PNL"],
+        },
+      },
+    ],
+  ],
+};
+
+const formatPnlEntry = (
+  entry: PnlEntry,
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string =>
+  `${entry.name}: ${formatSignedMoney(entry.totalPnl, currency, numberFormat)} (realized ${formatSignedMoney(entry.realizedPnl, currency, numberFormat)}, unrealized ${formatSignedMoney(entry.unrealizedPnl, currency, numberFormat)}) · cost basis ${formatMoney(entry.costBasis, currency, numberFormat)} · return ${formatPercent(entry.returnOnCostBasis, numberFormat)}`;
+
+const formatPnlSection = (
+  entries: PnlEntry[],
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string => {
+  if (entries.length === 0) return "No data available.";
+
+  const winners = entries
+    .filter((entry) => entry.totalPnl > 0)
+    .slice(0, RANKING_SIZE);
+  const losers = entries
+    .filter((entry) => entry.totalPnl < 0)
+    .reverse()
+    .slice(0, RANKING_SIZE);
+
+  return `${entries.map((entry) => formatPnlEntry(entry, currency, numberFormat)).join("\n")}
+
+Top winners: ${winners.length > 0 ? winners.map((entry) => `${entry.name} (${formatSignedMoney(entry.totalPnl, currency, numberFormat)})`).join(", ") : "none"}
+Top losers: ${losers.length > 0 ? losers.map((entry) => `${entry.name} (${formatSignedMoney(entry.totalPnl, currency, numberFormat)})`).join(", ") : "none"}`;
+};
+
+export const formatPnlResponse = (
+  addresses: string[],
+  { totals, chains, protocols }: PnlReport,
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 💰 Profit & Loss (in ${describeCurrency(currency)}) 💰 ===
+
+${addresses.length > 1 ? "Addresses" : "Address"}: ${addresses.join(", ")}
+Current Value: ${formatMoney(totals.value, currency, numberFormat)}
+Cost Basis: ${formatMoney(totals.costBasis, currency, numberFormat)}
+Realized PnL: ${formatSignedMoney(totals.realizedPnl, currency, numberFormat)}
+Unrealized PnL: ${formatSignedMoney(totals.unrealizedPnl, currency, numberFormat)}
+Total PnL: ${formatSignedMoney(totals.totalPnl, currency, numberFormat)}
+Return on Cost Basis: ${formatPercent(totals.returnOnCostBasis, numberFormat)}
+
+PnL per Chain:
+-----------------------------
+${formatPnlSection(chains, currency, numberFormat)}
+
+PnL per Protocol:
+-----------------------------
+${formatPnlSection(protocols, currency, numberFormat)}
+
+=============================`;
+};
@@ -0,0 +1,293 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient, resolveDisplayCurrency } from "../services";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import { DateRange, formatDate, parseDateRange } from "../utils/dateRange";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  formatSignedMoney,
+  USD,
+} from "../utils/currency";
+import {
+  formatPercent,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import {
+  computePortfolioPerformance,
+  PortfolioPerformance,
+  ValueChange,
+} from "../utils/performance";
+import {
+  extractMessageIntent,
+  getIntentDateRange,
+  MessageIntent,
+} from "../utils/intent";
+import { mergePortfolios } from "../utils/portfolio";
+import { isRefreshRequested } from "../utils/refresh";
+
+export const DEFAULT_HISTORY_DAYS = 30;
+const RANKING_SIZE = 3;
+
+/**
+ * Resolves the period to report on, from the model's extraction when there
+ * is one, defaulting to the last `DEFAULT_HISTORY_DAYS` days when the
+ * message does not name one.
+ */
+export const resolveHistoryRange = (
+  text: string,
+  now = new Date(),
+  intent: MessageIntent | null = null
+): Required<DateRange> => {
+  const { startDate, endDate } = intent
+    ? getIntentDateRange(intent, now)
+    : parseDateRange(text, now);
+
+  return {
+    startDate:
+      startDate ??
+      new Date(now.getTime() - DEFAULT_HISTORY_DAYS * 24 * 60 * 60 * 1000),
+    endDate: endDate && endDate < now ? endDate : now,
+  };
+};
+
+export const getPortfolioHistoryAction: Action = {
+  name: "GET_PORTFOLIO_HISTORY",
+  description:
+    "Report how the net worth of an address performed over a period, with its best and worst chains and protocols",
+
+  similes: [
+    "GET_PORTFOLIO_HISTORY",
+    "GET_PORTFOLIO_PERFORMANCE",
+    "FETCH_PORTFOLIO_HISTORY",
+  ].map((s) => `OCTAV_${s}`),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const portfolioHistoryKeywords = [
+      "history",
+      "historical",
+      "performance",
+      "performed",
+      "over time",
+      "since",
+    ];
+
+    const isMatch = portfolioHistoryKeywords.some((keyword) =>
+      content.includes(keyword)
+    );
+
+    logger.info(
+      `[GET_PORTFOLIO_HISTORY] Validation result: ${isMatch} (keywords checked: ${portfolioHistoryKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    const text = message.content.text ?? "";
+    try {
+      const references = await requireAddressReferences(runtime, text, message);
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[GET_PORTFOLIO_HISTORY] - Fetching portfolio history for addresses: ${addresses.join(", ")}`
+      );
+
+      const client = getOctavClient(runtime);
+      const now = new Date();
+      const range = resolveHistoryRange(
+        text,
+        now,
+        await extractMessageIntent(runtime, text, now)
+      );
+      const endsToday = formatDate(range.endDate) === formatDate(now);
+      const options = {
+        refresh: isRefreshRequested(text),
+        roomId: message.roomId,
+      };
+
+      const [startPortfolios, endPortfolios] = await Promise.all([
+        client.getHistoricalPortfolios(addresses, range.startDate, options),
+        endsToday
+          ? client.getPortfolios(addresses, options)
+          : client.getHistoricalPortfolios(addresses, range.endDate, options),
+      ]);
+
+      const performance = computePortfolioPerformance(
+        mergePortfolios(startPortfolios),
+        mergePortfolios(endPortfolios)
+      );
+      const formattedResponse = formatPortfolioHistoryResponse(
+        references.map(formatAddressReference),
+        range,
+        performance,
+        await resolveDisplayCurrency(runtime, text),
+        resolveNumberFormat(runtime)
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Fetched portfolio history on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          networthChange: performance.change,
+          networthChangePercent: performance.changePercent,
+          formattedResponse,
+        },
+        data: {
+          actions: "GET_PORTFOLIO_HISTORY",
+          addresses,
+          startDate: formatDate(range.startDate),
+          endDate: formatDate(range.endDate),
+          performance,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[GET_PORTFOLIO_HISTORY] - Error fetching portfolio history: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "GET_PORTFOLIO_HISTORY",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "How has 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 performed since January?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me compare the portfolio of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 since January using Octav API",
+          actions: ["GET_PORTFOLIO_HISTORY"],
+        },
+      },
+    ],
+  ],
+};
+
+const formatValueChanges = (
+  changes: ValueChange[],
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string =>
+  changes
+    .map(
+      (change) =>
+        `${change.name}: ${formatSignedMoney(change.change, currency, numberFormat)} (${formatPercent(change.changePercent, numberFormat)}) · ${formatMoney(change.startValue, currency, numberFormat)} → ${formatMoney(change.endValue, currency, numberFormat)}`
+    )
+    .join("\n");
+
+const formatRanking = (
+  changes: ValueChange[],
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string => {
+  const best = changes
+    .filter((change) => change.change > 0)
+    .slice(0, RANKING_SIZE);
+  const worst = changes
+    .filter((change) => change.change < 0)
+    .reverse()
+    .slice(0, RANKING_SIZE);
+
+  return `Best:
+${best.length > 0 ? formatValueChanges(best, currency, numberFormat) : "No gains over this period."}
+
+Worst:
+${worst.length > 0 ? formatValueChanges(worst, currency, numberFormat) : "No losses over this period."}`;
+};
+
+export const formatPortfolioHistoryResponse = (
+  addresses: string[],
+  { startDate, endDate }: Required<DateRange>,
+  performance: PortfolioPerformance,
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 📊 Portfolio Performance (in ${describeCurrency(currency)}) 📊 ===
+
+${addresses.length > 1 ? "Addresses" : "Address"}: ${addresses.join(", ")}
+Period: ${formatDate(startDate)} → ${formatDate(endDate)}
+
+Networth: ${formatMoney(performance.startNetworth, currency, numberFormat)} → ${formatMoney(performance.endNetworth, currency, numberFormat)}
+Change: ${formatSignedMoney(performance.change, currency, numberFormat)} (${formatPercent(performance.changePercent, numberFormat)})
+
+Chains:
+-----------------------------
+${performance.chains.length > 0 ? formatRanking(performance.chains, currency, numberFormat) : "No data available for chains."}
+
+Protocols:
+-----------------------------
+${performance.protocols.length > 0 ? formatRanking(performance.protocols, currency, numberFormat) : "No data available for protocols."}
+
+=============================`;
+};
@@ -0,0 +1,316 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient, resolveDisplayCurrency } from "../services";
+import { TokenHolding } from "../types";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import { extractChains, getChainName, mentionsChain } from "../utils/chains";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  USD,
+} from "../utils/currency";
+import {
+  formatTokenAmount,
+  formatUsd,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import {
+  DEFAULT_TOKEN_HOLDINGS_LIMIT,
+  extractTokenHoldings,
+  filterTokenHoldings,
+  isSpamRequested,
+  isSpamToken,
+  resolveSpamTokenList,
+  TokenHoldingsFilter,
+} from "../utils/holdings";
+import {
+  extractMessageIntent,
+  getIntentChains,
+  MessageIntent,
+} from "../utils/intent";
+import { isRefreshRequested } from "../utils/refresh";
+
+const MIN_VALUE_REGEX =
+  /(?:over|above|more than|at least|min(?:imum)?(?: value)?(?: of)?|>=?)\s*\$?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|m)?\b/i;
+const LIMIT_REGEX = /\btop\s+(\d+)\b/i;
+
+/**
+ * Reads the minimum USD value ("over $100", "at least 1.5k") and top-N
+ * ("top 10") filters from a message. The minimum value comes from the
+ * model's extraction when there is one.
+ */
+export const parseTokenHoldingsFilter = (
+  text: string,
+  intent: MessageIntent | null = null
+): Omit<TokenHoldingsFilter, "chain"> => {
+  const filter: Omit<TokenHoldingsFilter, "chain"> = {};
+
+  const minValueMatch = intent ? null : text.match(MIN_VALUE_REGEX);
+  if (typeof intent?.minValueUsd === "number") {
+    filter.minValue = intent.minValueUsd;
+  } else if (minValueMatch) {
+    const multiplier = { k: 1_000, m: 1_000_000 }[
+      (minValueMatch[2]?.toLowerCase() ?? "") as "k" | "m"
+    ];
+    filter.minValue =
+      Number(minValueMatch[1].replace(/,/g, "")) * (multiplier ?? 1);
+  }
+
+  const limitMatch = text.match(LIMIT_REGEX);
+  if (limitMatch) filter.limit = Number(limitMatch[1]);
+
+  return filter;
+};
+
+/**
+ * Finds the chain mentioned in a message: a chain Octav supports, even when
+ * the portfolio holds nothing there, or else one of the chains the portfolio
+ * holds tokens on. With the model's extraction, only the chains it names
+ * are considered.
+ */
+const findMentionedChain = (
+  text: string,
+  holdings: TokenHolding[],
+  intent: MessageIntent | null = null
+): string | undefined => {
+  const [known] = intent ? getIntentChains(intent) : extractChains(text);
+  if (known) return known;
+
+  return holdings.find((holding) =>
+    [holding.chainName, holding.chain].some((name) =>
+      intent
+        ? intent.chains.some(
+            (named) => named.toLowerCase() === name.toLowerCase()
+          )
+        : mentionsChain(text, name)
+    )
+  )?.chain;
+};
+
+export const getTokenHoldingsAction: Action = {
+  name: "GET_TOKEN_HOLDINGS",
+  description:
+    "List the top tokens held by one or several addresses, optionally filtered by chain or minimum USD value",
+
+  similes: ["GET_TOKEN_HOLDINGS", "GET_TOKENS", "LIST_TOKENS"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const tokenHoldingsKeywords = ["token", "holdings", "hold"];
+
+    const isMatch = tokenHoldingsKeywords.some((keyword) =>
+      content.includes(keyword)
+    );
+
+    logger.info(
+      `[GET_TOKEN_HOLDINGS] Validation result: ${isMatch} (keywords checked: ${tokenHoldingsKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    const text = message.content.text ?? "";
+    try {
+      const references = await requireAddressReferences(runtime, text, message);
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[GET_TOKEN_HOLDINGS] - Fetching token holdings for addresses: ${addresses.join(", ")}`
+      );
+
+      const portfolios = await getOctavClient(runtime).getPortfolios(
+        addresses,
+        {
+          refresh: isRefreshRequested(text),
+          roomId: message.roomId,
+        }
+      );
+      const extractedHoldings = extractTokenHoldings(portfolios);
+      const spamTokens = resolveSpamTokenList(runtime);
+      const allHoldings = isSpamRequested(text)
+        ? extractedHoldings
+        : extractedHoldings.filter(
+            (holding) => !isSpamToken(holding, spamTokens)
+          );
+      const intent = await extractMessageIntent(runtime, text);
+      const filter: TokenHoldingsFilter = {
+        ...parseTokenHoldingsFilter(text, intent),
+        chain: findMentionedChain(text, allHoldings, intent),
+      };
+      const holdings = filterTokenHoldings(allHoldings, filter);
+      const hiddenSpam = extractedHoldings.length - allHoldings.length;
+      const formattedResponse = formatTokenHoldingsResponse(
+        references.map(formatAddressReference),
+        holdings,
+        allHoldings.length,
+        filter,
+        hiddenSpam,
+        await resolveDisplayCurrency(runtime, text),
+        resolveNumberFormat(runtime)
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Fetched token holdings on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          formattedResponse,
+        },
+        data: {
+          actions: "GET_TOKEN_HOLDINGS",
+          addresses,
+          filter,
+          holdings,
+          hiddenSpam,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[GET_TOKEN_HOLDINGS] - Error fetching token holdings: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "GET_TOKEN_HOLDINGS",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What tokens does 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 hold on Arbitrum?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me list the tokens held by 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 on Arbitrum using Octav API",
+          actions: ["GET_TOKEN_HOLDINGS"],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Show the top 5 tokens over $1000 held by 0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me fetch the largest token holdings of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 using Octav API",
+          actions: ["GET_TOKEN_HOLDINGS"],
+        },
+      },
+    ],
+  ],
+};
+
+export const formatTokenHoldingsResponse = (
+  addresses: string[],
+  holdings: TokenHolding[],
+  totalHoldings: number,
+  {
+    chain,
+    minValue,
+    limit = DEFAULT_TOKEN_HOLDINGS_LIMIT,
+  }: TokenHoldingsFilter,
+  hiddenSpam = 0,
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  const chainName = chain
+    ? (holdings[0]?.chainName ?? getChainName(chain))
+    : "";
+  const filters = [
+    chain ? `Chain: ${chainName}` : undefined,
+    minValue !== undefined
+      ? `Minimum Value: ${formatUsd(minValue, numberFormat)}`
+      : undefined,
+  ].filter(Boolean);
+
+  const holdingsStr = holdings
+    .map(
+      (holding, index) =>
+        `${index + 1}. ${holding.symbol} (${holding.chainName}): ${formatTokenAmount(holding.balance, numberFormat)} @ ${formatMoney(holding.price, currency, numberFormat)} = ${formatMoney(holding.value, currency, numberFormat)}`
+    )
+    .join("\n");
+
+  return `=== 🪙 Token Holdings (in ${describeCurrency(currency)}) 🪙 ===
+
+${addresses.length > 1 ? "Addresses" : "Address"}: ${addresses.join(", ")}
+${filters.length > 0 ? `${filters.join(" | ")}\n` : ""}Showing up to ${limit} of ${totalHoldings} tokens${hiddenSpam > 0 ? ` (${hiddenSpam} suspected spam hidden)` : ""}
+
+Tokens:
+-----------------------------
+${holdingsStr ? holdingsStr : chain && minValue === undefined ? `No tokens on ${chainName}.` : "No tokens match these filters."}
+
+=============================`;
+};
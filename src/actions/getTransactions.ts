@@ -0,0 +1,390 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient, resolveDisplayCurrency } from "../services";
+import {
+  OctavTransaction,
+  OctavTransactionsQuery,
+  TransactionAsset,
+} from "../types";
+import {
+  AddressLabels,
+  formatAddress,
+  requireAddressReferences,
+  toAddressLabels,
+} from "../utils/address";
+import { extractChains, getChainName } from "../utils/chains";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  USD,
+} from "../utils/currency";
+import { formatDate, parseDateRange } from "../utils/dateRange";
+import {
+  formatTokenAmount,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import {
+  extractMessageIntent,
+  getIntentChains,
+  getIntentDateRange,
+  MessageIntent,
+} from "../utils/intent";
+import { isRefreshRequested } from "../utils/refresh";
+
+export const DEFAULT_TRANSACTIONS_LIMIT = 10;
+export const MAX_TRANSACTIONS_LIMIT = 100;
+
+const PAGE_REGEX = /\bpage\s+(\d+)\b/i;
+const LIMIT_REGEX =
+  /\b(?:(?:last|latest|first|limit)\s+(\d+)(?!\d|\s*(?:days?|weeks?|months?|years?)\b)|(\d+)\s+(?:transactions|txs|txns))\b/i;
+const PROTOCOL_REGEX = /\b(?:protocols?|via)\s+([a-z0-9][\w.-]*)/gi;
+
+/**
+ * Words that follow "protocol" or "via" in questions without naming a
+ * protocol, e.g. "which protocols did it use" or "via the bridge". Sending
+ * them to Octav would filter every transaction out.
+ */
+const PROTOCOL_STOP_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "this",
+  "that",
+  "these",
+  "those",
+  "my",
+  "your",
+  "its",
+  "their",
+  "our",
+  "any",
+  "all",
+  "some",
+  "which",
+  "what",
+  "did",
+  "do",
+  "does",
+  "has",
+  "have",
+  "had",
+  "is",
+  "are",
+  "was",
+  "were",
+  "used",
+  "use",
+  "on",
+  "in",
+  "of",
+  "for",
+  "with",
+  "to",
+  "and",
+  "or",
+]);
+
+/**
+ * Reads pagination ("page 2", "last 20 transactions"), the date range and
+ * chain or protocol filters from a message. The range and filters come from
+ * the model's extraction when there is one.
+ */
+export const parseTransactionsQuery = (
+  text: string,
+  now = new Date(),
+  intent: MessageIntent | null = null
+): Omit<OctavTransactionsQuery, "addresses"> => {
+  const limitMatch = text.match(LIMIT_REGEX);
+  const limit = Math.min(
+    Number(limitMatch?.[1] ?? limitMatch?.[2] ?? DEFAULT_TRANSACTIONS_LIMIT) ||
+      DEFAULT_TRANSACTIONS_LIMIT,
+    MAX_TRANSACTIONS_LIMIT
+  );
+  const page = Math.max(Number(text.match(PAGE_REGEX)?.[1] ?? 1), 1);
+  const chains = intent ? getIntentChains(intent) : extractChains(text);
+  const protocols = intent
+    ? intent.protocols.map((protocol) => protocol.toLowerCase())
+    : [...text.matchAll(PROTOCOL_REGEX)]
+        .map((match) => match[1].toLowerCase())
+        .filter(
+          (protocol) =>
+            !PROTOCOL_STOP_WORDS.has(protocol) && !chains.includes(protocol)
+        );
+
+  return {
+    limit,
+    offset: (page - 1) * limit,
+    ...(intent ? getIntentDateRange(intent, now) : parseDateRange(text, now)),
+    chains,
+    protocols,
+  };
+};
+
+export const getTransactionsAction: Action = {
+  name: "GET_TRANSACTIONS",
+  description:
+    "Fetch the transaction history of an address, optionally filtered by date range, chain or protocol",
+
+  similes: ["GET_TRANSACTIONS", "FETCH_TRANSACTIONS", "GET_ACTIVITY"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const transactionsKeywords = [
+      "transaction",
+      "txs",
+      "txns",
+      "activity",
+      "what did",
+    ];
+
+    const isMatch = transactionsKeywords.some((keyword) =>
+      content.includes(keyword)
+    );
+
+    logger.info(
+      `[GET_TRANSACTIONS] Validation result: ${isMatch} (keywords checked: ${transactionsKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    const text = message.content.text ?? "";
+    try {
+      const references = await requireAddressReferences(runtime, text, message);
+      const addresses = references.map((reference) => reference.address);
+      logger.info(
+        `[GET_TRANSACTIONS] - Fetching transactions for addresses: ${addresses.join(", ")}`
+      );
+
+      const query: OctavTransactionsQuery = {
+        addresses,
+        ...parseTransactionsQuery(
+          text,
+          new Date(),
+          await extractMessageIntent(runtime, text)
+        ),
+      };
+      const transactions = await getOctavClient(runtime).getTransactions(
+        query,
+        {
+          refresh: isRefreshRequested(text),
+          roomId: message.roomId,
+        }
+      );
+      const formattedResponse = formatTransactionsResponse(
+        query,
+        transactions,
+        toAddressLabels(references),
+        await resolveDisplayCurrency(runtime, text),
+        resolveNumberFormat(runtime)
+      );
+
+      const sucessfullActionMessage =
+        "Sucessfully Fetched transactions on Octav \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            addresses,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          formattedResponse,
+        },
+        data: {
+          actions: "GET_TRANSACTIONS",
+          addresses,
+          query,
+          transactions,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[GET_TRANSACTIONS] - Error fetching transactions: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "GET_TRANSACTIONS",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What did 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 do last week?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me fetch last week's transactions of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 using Octav API",
+          actions: ["GET_TRANSACTIONS"],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Show page 2 of the Arbitrum transactions of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 since 2025-01-01",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me fetch the next page of Arbitrum transactions using Octav API",
+          actions: ["GET_TRANSACTIONS"],
+        },
+      },
+    ],
+  ],
+};
+
+const formatTransactionAssets = (
+  assets: TransactionAsset[],
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string =>
+  assets
+    .map(
+      (asset) =>
+        `${formatTokenAmount(Number(asset.balance), numberFormat)} ${asset.symbol} (${formatMoney(Number(asset.value), currency, numberFormat)})`
+    )
+    .join(", ");
+
+const formatTransaction = (
+  transaction: OctavTransaction,
+  index: number,
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string => {
+  const date = new Date(transaction.timestamp)
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ");
+
+  const lines = [
+    `${index}. ${date} UTC · ${transaction.type} · ${transaction.protocol?.name ?? "Unknown protocol"} · ${transaction.chain.name}`,
+  ];
+
+  if (transaction.assetsOut.length > 0) {
+    lines.push(
+      `   Out: ${formatTransactionAssets(transaction.assetsOut, currency, numberFormat)}`
+    );
+  }
+  if (transaction.assetsIn.length > 0) {
+    lines.push(
+      `   In: ${formatTransactionAssets(transaction.assetsIn, currency, numberFormat)}`
+    );
+  }
+  lines.push(
+    `   Fee: ${formatMoney(Number(transaction.feesFiat), currency, numberFormat)}`
+  );
+  lines.push(`   Hash: ${transaction.hash}`);
+
+  return lines.join("\n");
+};
+
+export const formatTransactionsResponse = (
+  query: OctavTransactionsQuery,
+  transactions: OctavTransaction[],
+  labels: AddressLabels = {},
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  const filters = [
+    query.startDate || query.endDate
+      ? `Period: ${query.startDate ? formatDate(query.startDate) : "…"} → ${query.endDate ? formatDate(query.endDate) : "now"}`
+      : undefined,
+    query.chains?.length
+      ? `Chains: ${query.chains.map(getChainName).join(", ")}`
+      : undefined,
+    query.protocols?.length
+      ? `Protocols: ${query.protocols.join(", ")}`
+      : undefined,
+  ].filter(Boolean);
+
+  const page = Math.floor(query.offset / query.limit) + 1;
+
+  const transactionsStr = transactions
+    .map((transaction, index) =>
+      formatTransaction(
+        transaction,
+        query.offset + index + 1,
+        currency,
+        numberFormat
+      )
+    )
+    .join("\n\n");
+
+  return `=== 🧾 Transactions (in ${describeCurrency(currency)}) 🧾 ===
+
+${query.addresses.length > 1 ? "Addresses" : "Address"}: ${query.addresses.map((address) => formatAddress(address, labels)).join(", ")}
+${filters.length > 0 ? `${filters.join(" | ")}\n` : ""}Page ${page} (${query.limit} per page)
+
+Transactions:
+-----------------------------
+${transactionsStr ? transactionsStr : "No transactions found for these filters."}
+${transactions.length === query.limit ? `\nAsk for page ${page + 1} to see older transactions.\n` : ""}
+=============================`;
+};
@@ -12,8 +12,63 @@ import {
   Memory,
   State,
 } from "@elizaos/core";
-import { octavProvider } from "../providers";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient, resolveDisplayCurrency } from "../services";
 import { OctavPortfolioBalance } from "../types";
+import {
+  AddressLabels,
+  formatAddress,
+  mentionsAddress,
+  requireAddressReferences,
+  toAddressLabels,
+} from "../utils/address";
+import {
+  getChainValues,
+  getProtocolValues,
+  mergePortfolios,
+  ValueEntry,
+} from "../utils/portfolio";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  USD,
+} from "../utils/currency";
+import {
+  DEFAULT_DISPLAY_LIMITS,
+  DisplayLimits,
+  resolveDisplayLimits,
+  rollUpEntries,
+} from "../utils/displayLimits";
+import {
+  formatShare,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import { extractMessageIntent } from "../utils/intent";
+import { FormatterRegistry, resolveOutputFormat } from "../utils/outputFormat";
+import { isRefreshRequested } from "../utils/refresh";
+
+export { analyzePortfolioRiskAction } from "./analyzePortfolioRisk";
+export { comparePortfolioAction } from "./comparePortfolio";
+export { compareWalletsAction } from "./compareWallets";
+export { exportPortfolioAction } from "./exportPortfolio";
+export { getCreditsAction } from "./getCredits";
+export { getPnlAction } from "./getPnl";
+export { getPortfolioHistoryAction } from "./getPortfolioHistory";
+export { getTokenHoldingsAction } from "./getTokenHoldings";
+export { getTransactionsAction } from "./getTransactions";
+export { saveAddressAction } from "./saveAddress";
+export { setPortfolioAlertAction } from "./setPortfolioAlert";
+export {
+  listWatchlistAction,
+  unwatchAddressAction,
+  watchAddressAction,
+} from "./watchlist";
+
+// Messages without these words or an address are never portfolio requests,
+// so the model is not asked about them.
+const PORTFOLIO_HINT_REGEX = /\b(?:portfolios?|worth|balances?)\b/i;
 
 /**
  * Action representing a hello world message.
@@ -32,10 +87,29 @@ export const getPortfolioBalancesAction: Action = {
   similes: ["GET_PORTFOLIO", "FETCH_PORTFOLIO"].map((s) => `OCTAV_${s}`),
 
   validate: async (
-    _runtime: IAgentRuntime,
+    runtime: IAgentRuntime,
     message: Memory,
     _state: State | undefined
   ): Promise<boolean> => {
+    const mayBePortfolioRequest =
+      PORTFOLIO_HINT_REGEX.test(message.content?.text ?? "") ||
+      (await mentionsAddress(runtime, message.content?.text, message));
+    if (!mayBePortfolioRequest) {
+      logger.info(
+        "[GET_PORTFOLIO] Validation result: false (no address or portfolio keyword)"
+      );
+      return false;
+    }
+
+    const intent = await extractMessageIntent(runtime, message.content?.text);
+    if (intent) {
+      const isPortfolioIntent = intent.intent === "portfolio";
+      logger.info(
+        `[GET_PORTFOLIO] Validation result: ${isPortfolioIntent} (intent: ${intent.intent})`
+      );
+      return isPortfolioIntent;
+    }
+
     const content = message.content?.text?.toLowerCase() || "";
 
     const fetchPortfolioBalancesKeyword = [
@@ -58,56 +132,93 @@ export const getPortfolioBalancesAction: Action = {
   },
 
   handler: async (
-    _runtime: IAgentRuntime,
+    runtime: IAgentRuntime,
     message: Memory,
     _state: State | undefined,
     _options: Record<string, unknown> = {},
     callback?: HandlerCallback,
     _responses?: Memory[]
   ): Promise<ActionResult> => {
-    const addressMatch = message.content.text?.match(/0x[a-fA-F0-9]{40}/);
-    const address = addressMatch?.[0] ?? "";
-    logger.info(
-      `[GET_PORTFOLIO] - Fetching portfolio balances for address: ${address}`
-    );
-
     try {
-      const response = await octavProvider.get(
-        _runtime,
-        message,
-        _state || ({} as State)
+      const intent = await extractMessageIntent(runtime, message.content.text);
+      const references = await requireAddressReferences(
+        runtime,
+        intent?.addresses.length
+          ? intent.addresses.join(" ")
+          : message.content.text,
+        message
+      );
+      const addresses = references.map((reference) => reference.address);
+      const address = addresses[0];
+      logger.info(
+        `[GET_PORTFOLIO] - Fetching portfolio balances for addresses: ${addresses.join(", ")}`
       );
 
-      if (!response.data) return { success: false, error: "No data" };
-
-      const dataTyped = response.data as OctavPortfolioBalance;
-      const formattedResponse = formatPortfolioBalancesResponse(dataTyped);
+      const portfolios = await getOctavClient(runtime).getPortfolios(
+        addresses,
+        {
+          refresh: isRefreshRequested(message.content.text),
+          roomId: message.roomId,
+        }
+      );
+      const format =
+        intent?.outputFormat ??
+        resolveOutputFormat(runtime, message.content.text);
+      const currency = await resolveDisplayCurrency(
+        runtime,
+        message.content.text
+      );
+      const formattedResponse = portfolioBalancesFormatters[format]({
+        portfolios,
+        labels: toAddressLabels(references),
+        currency,
+        limits: resolveDisplayLimits(runtime, message.content.text),
+        numberFormat: resolveNumberFormat(runtime),
+      });
+      const totalNetworth = mergePortfolios(portfolios).networth;
 
       const sucessfullActionMessage =
         "Sucessfully Fetched portfolio balances on Octav \n";
+      // JSON is meant for other programs, so it is sent as is.
+      const responseText =
+        format === "json"
+          ? formattedResponse
+          : `✅ ${sucessfullActionMessage} \n ${formattedResponse}`;
 
       if (callback) {
         await callback({
-          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          text: responseText,
           content: {
             success: true,
             address,
+            addresses,
             formattedResponse,
           },
         });
       }
 
       return {
-        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        text: responseText,
         success: true,
         values: {
           operationSucessfull: true,
           address,
+          addresses,
+          totalNetworth,
+          format,
+          currency: currency.code,
           formattedResponse,
         },
         data: {
           actions: "GET_PORTFOLIO",
           address,
+          addresses,
+          references,
+          totalNetworth,
+          portfolios,
+          format,
+          currency,
+          intent,
           formattedResponse,
           timestamp: Date.now(),
         },
@@ -120,20 +231,27 @@ export const getPortfolioBalancesAction: Action = {
         }`
       );
 
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+      const errorMessage = toUserMessage(error);
 
       if (callback) {
         await callback({
           text: errorMessage,
-          content: { success: false, error: errorMessage },
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
         });
       }
 
       return {
         success: false,
         text: `❌ ${errorMessage}`,
-        data: { actionName: "GET_PORTFOLIO", error: errorMessage },
+        data: {
+          actionName: "GET_PORTFOLIO",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
         error: error instanceof Error ? error : new Error(String(error)),
       };
     }
@@ -155,43 +273,156 @@ export const getPortfolioBalancesAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What is the combined portfolio of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 and 0x3f5CE5FBFe3E9af3971dD833D26bA9b5C936f0bE?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me fetch the aggregated portfolio of both wallets using Octav API",
+          actions: ["GET_PORTFOLIO"],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Give me the portfolio of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 as a table",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Let me fetch the portfolio of 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 and lay it out as a Markdown table",
+          actions: ["GET_PORTFOLIO"],
+        },
+      },
+    ],
   ],
 };
 
+/**
+ * Formats one or several portfolios. Several portfolios are rendered as an
+ * aggregated view followed by one section per wallet. Chains and protocols
+ * outside the display limits are rolled up into an "Other" line.
+ */
 export const formatPortfolioBalancesResponse = (
-  portfolioBalances: OctavPortfolioBalance
+  portfolioBalances: OctavPortfolioBalance | OctavPortfolioBalance[],
+  labels: AddressLabels = {},
+  currency: DisplayCurrency = USD,
+  limits: DisplayLimits = DEFAULT_DISPLAY_LIMITS,
+  numberFormat: NumberFormatOptions = {}
 ): string => {
-  const networthPerChain = Object.entries(portfolioBalances.chains)
-    .map(([chainKey, chain]) => {
-      return `${chain.name}: $${Number(chain.value).toFixed(2)}`;
-    })
-    .join("\n");
-
-  const totalNetworthFormatted = Number(portfolioBalances.networth).toFixed(2);
-
-  const networthPerProtocol = Object.entries(portfolioBalances.assetByProtocols)
-    .map(([protocolKey, protocol]) => {
-      const protocolValue = protocol.value;
-      return { name: protocol.name, value: protocolValue };
-    })
-    .sort((a, b) => Number(b.value) - Number(a.value));
-
-  const walletIndex = networthPerProtocol.findIndex((p) => p.name === "Wallet");
-  if (walletIndex > -1) {
-    const wallet = networthPerProtocol.splice(walletIndex, 1)[0];
-    networthPerProtocol.unshift(wallet);
+  if (!Array.isArray(portfolioBalances)) {
+    return formatPortfolioSection(
+      portfolioBalances,
+      formatAddress(portfolioBalances.address, labels),
+      currency,
+      limits,
+      numberFormat
+    );
   }
 
-  const networthProtocolStr = networthPerProtocol
-    .map(
-      (protocol) => `${protocol.name}: $${Number(protocol.value).toFixed(2)}`
+  if (portfolioBalances.length === 1) {
+    return formatPortfolioSection(
+      portfolioBalances[0],
+      formatAddress(portfolioBalances[0].address, labels),
+      currency,
+      limits,
+      numberFormat
+    );
+  }
+
+  const aggregatedSection = formatPortfolioSection(
+    mergePortfolios(portfolioBalances),
+    portfolioBalances
+      .map((portfolio) => formatAddress(portfolio.address, labels))
+      .join(", "),
+    currency,
+    limits,
+    numberFormat,
+    `📈 Aggregated Portfolio Balances of ${portfolioBalances.length} Wallets (in ${describeCurrency(currency)}) 📈`,
+    "Addresses"
+  );
+
+  const walletSections = portfolioBalances.map((portfolio, index) =>
+    formatPortfolioSection(
+      portfolio,
+      formatAddress(portfolio.address, labels),
+      currency,
+      limits,
+      numberFormat,
+      `👛 Wallet ${index + 1} of ${portfolioBalances.length} (in ${describeCurrency(currency)}) 👛`
     )
-    .join("\n");
+  );
+
+  return [aggregatedSection, ...walletSections].join("\n\n");
+};
+
+const pluralize = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const formatValueLines = (
+  entries: ValueEntry[],
+  noun: string,
+  currency: DisplayCurrency,
+  limits: DisplayLimits,
+  numberFormat: NumberFormatOptions
+): string => {
+  const { shown, other } = rollUpEntries(entries, limits);
+  const lines = shown.map(
+    (entry) =>
+      `${entry.name}: ${formatMoney(entry.value, currency, numberFormat)}`
+  );
+  if (other) {
+    lines.push(
+      `Other (${pluralize(other.count, noun)}, ${formatMoney(other.value, currency, numberFormat)})`
+    );
+  }
+
+  return lines.join("\n");
+};
+
+const formatPortfolioSection = (
+  portfolioBalances: OctavPortfolioBalance,
+  displayAddress: string,
+  currency: DisplayCurrency,
+  limits: DisplayLimits,
+  numberFormat: NumberFormatOptions,
+  title = `📈 Portfolio Balances (in ${describeCurrency(currency)}) 📈`,
+  addressLabel = "Address"
+): string => {
+  const networthPerChain = formatValueLines(
+    getChainValues(portfolioBalances),
+    "chain",
+    currency,
+    limits,
+    numberFormat
+  );
 
-  return `=== 📈 Portfolio Balances (in USD) 📈 ===
+  const totalNetworthFormatted = formatMoney(
+    Number(portfolioBalances.networth),
+    currency,
+    numberFormat
+  );
 
-Address: ${portfolioBalances.address}
-Total Networth: $${totalNetworthFormatted}
+  const networthProtocolStr = formatValueLines(
+    getProtocolValues(portfolioBalances),
+    "protocol",
+    currency,
+    limits,
+    numberFormat
+  );
+
+  return `=== ${title} ===
+
+${addressLabel}: ${displayAddress}
+Total Networth: ${totalNetworthFormatted}
     
 Networth per Chain:
 -----------------------------
@@ -203,3 +434,180 @@ ${networthProtocolStr ? networthProtocolStr : "No data available for protocols."
 
 =============================`;
 };
+
+export type PortfolioBalancesResult = {
+  portfolios: OctavPortfolioBalance[];
+  labels?: AddressLabels;
+  currency?: DisplayCurrency;
+  limits?: DisplayLimits;
+  numberFormat?: NumberFormatOptions;
+};
+
+const formatShareOf = (
+  value: number,
+  networth: number,
+  numberFormat: NumberFormatOptions
+): string =>
+  formatShare(networth > 0 ? (value / networth) * 100 : null, numberFormat);
+
+const formatMarkdownTable = (
+  header: string,
+  entries: ValueEntry[],
+  networth: number,
+  currency: DisplayCurrency,
+  limits: DisplayLimits,
+  numberFormat: NumberFormatOptions
+): string => {
+  const { shown, other } = rollUpEntries(entries, limits);
+  const rows = shown.map(
+    (entry) =>
+      `| ${entry.name} | ${formatMoney(entry.value, currency, numberFormat)} | ${formatShareOf(entry.value, networth, numberFormat)} |`
+  );
+  if (other) {
+    rows.push(
+      `| Other (${pluralize(other.count, header.toLowerCase())}) | ${formatMoney(other.value, currency, numberFormat)} | ${formatShareOf(other.value, networth, numberFormat)} |`
+    );
+  }
+
+  return `| ${header} | Value (${describeCurrency(currency)}) | Share |
+| --- | ---: | ---: |
+${rows.length > 0 ? rows.join("\n") : "| No data available | | |"}`;
+};
+
+const formatPortfolioMarkdownSection = (
+  portfolio: OctavPortfolioBalance,
+  displayAddress: string,
+  currency: DisplayCurrency,
+  limits: DisplayLimits,
+  numberFormat: NumberFormatOptions,
+  title = "📈 Portfolio Balances",
+  addressLabel = "Address"
+): string => {
+  const networth = Number(portfolio.networth);
+
+  return `### ${title}
+
+- **${addressLabel}:** ${displayAddress}
+- **Total Networth:** ${formatMoney(networth, currency, numberFormat)}
+
+${formatMarkdownTable("Chain", getChainValues(portfolio), networth, currency, limits, numberFormat)}
+
+${formatMarkdownTable("Protocol", getProtocolValues(portfolio), networth, currency, limits, numberFormat)}`;
+};
+
+/**
+ * Same sections as `formatPortfolioBalancesResponse`, laid out as Markdown
+ * tables for chat apps and dashboards that render them.
+ */
+export const formatPortfolioBalancesMarkdown = ({
+  portfolios,
+  labels = {},
+  currency = USD,
+  limits = DEFAULT_DISPLAY_LIMITS,
+  numberFormat = {},
+}: PortfolioBalancesResult): string => {
+  if (portfolios.length === 1) {
+    return formatPortfolioMarkdownSection(
+      portfolios[0],
+      formatAddress(portfolios[0].address, labels),
+      currency,
+      limits,
+      numberFormat
+    );
+  }
+
+  return [
+    formatPortfolioMarkdownSection(
+      mergePortfolios(portfolios),
+      portfolios
+        .map((portfolio) => formatAddress(portfolio.address, labels))
+        .join(", "),
+      currency,
+      limits,
+      numberFormat,
+      `📈 Aggregated Portfolio Balances of ${portfolios.length} Wallets`,
+      "Addresses"
+    ),
+    ...portfolios.map((portfolio, index) =>
+      formatPortfolioMarkdownSection(
+        portfolio,
+        formatAddress(portfolio.address, labels),
+        currency,
+        limits,
+        numberFormat,
+        `👛 Wallet ${index + 1} of ${portfolios.length}`
+      )
+    ),
+  ].join("\n\n");
+};
+
+const COMPACT_MAX_ENTRIES = 3;
+
+const formatCompactEntries = (
+  entries: ValueEntry[],
+  networth: number,
+  numberFormat: NumberFormatOptions
+): string => {
+  const shown = entries
+    .slice(0, COMPACT_MAX_ENTRIES)
+    .map(
+      (entry) =>
+        `${entry.name} ${formatShareOf(entry.value, networth, numberFormat)}`
+    );
+  const hidden = entries.length - shown.length;
+
+  return `${shown.join(", ") || "none"}${hidden > 0 ? ` +${hidden} more` : ""}`;
+};
+
+/**
+ * Net worth with the top chains and protocols on a single line, for
+ * notifications and bots with little room.
+ */
+export const formatPortfolioBalancesCompact = ({
+  portfolios,
+  labels = {},
+  currency = USD,
+  numberFormat = {},
+}: PortfolioBalancesResult): string => {
+  const portfolio = mergePortfolios(portfolios);
+  const networth = Number(portfolio.networth);
+  const chains = getChainValues(portfolio).sort((a, b) => b.value - a.value);
+
+  return `${portfolios.map((entry) => formatAddress(entry.address, labels)).join(", ")}: ${currency.approximate ? "≈" : ""}${formatMoney(networth, currency, { ...numberFormat, compact: true })} · Chains: ${formatCompactEntries(chains, networth, numberFormat)} · Protocols: ${formatCompactEntries(getProtocolValues(portfolio), networth, numberFormat)}`;
+};
+
+/**
+ * The portfolios as returned by Octav, in USD, for downstream programs. The
+ * display currency and its rate are given alongside.
+ */
+export const formatPortfolioBalancesJson = ({
+  portfolios,
+  labels = {},
+  currency = USD,
+}: PortfolioBalancesResult): string =>
+  JSON.stringify(
+    {
+      addresses: portfolios.map((portfolio) => portfolio.address),
+      labels,
+      totalNetworth: mergePortfolios(portfolios).networth,
+      currency,
+      portfolios,
+    },
+    null,
+    2
+  );
+
+export const portfolioBalancesFormatters: FormatterRegistry<PortfolioBalancesResult> =
+  {
+    text: ({ portfolios, labels, currency, limits, numberFormat }) =>
+      formatPortfolioBalancesResponse(
+        portfolios,
+        labels,
+        currency,
+        limits,
+        numberFormat
+      ),
+    markdown: formatPortfolioBalancesMarkdown,
+    compact: formatPortfolioBalancesCompact,
+    json: formatPortfolioBalancesJson,
+  };
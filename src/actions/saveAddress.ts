@@ -0,0 +1,161 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getAddressBookService } from "../services";
+import { SavedAddress } from "../types";
+import { requireAddressReferences } from "../utils/address";
+
+const SAVE_ADDRESS_REGEX =
+  /\b(?:save|remember|store|label)\s+(.+?)\s+as\s+([^.!?\n]+)/i;
+
+/**
+ * Reads what to save and under which name from messages such as "save 0x…
+ * as my treasury wallet" or "remember that address as cold storage".
+ */
+export const parseSaveAddressRequest = (
+  text: string | undefined
+): { target: string; name: string } | null => {
+  const match = (text ?? "").match(SAVE_ADDRESS_REGEX);
+  return match ? { target: match[1], name: match[2].trim() } : null;
+};
+
+export const saveAddressAction: Action = {
+  name: "SAVE_ADDRESS",
+  description:
+    'Save an address under a name, e.g. "treasury" or "my wallet", so later messages can refer to it by that name',
+
+  similes: ["SAVE_ADDRESS", "REMEMBER_ADDRESS", "LABEL_ADDRESS"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const isMatch = parseSaveAddressRequest(message.content?.text) !== null;
+
+    logger.info(`[SAVE_ADDRESS] Validation result: ${isMatch}`);
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const request = parseSaveAddressRequest(message.content.text);
+      if (!request) {
+        throw new Error('No name found. Try "save 0x… as my treasury wallet".');
+      }
+
+      const [reference] = await requireAddressReferences(
+        runtime,
+        request.target,
+        message
+      );
+      const saved = await getAddressBookService(runtime).save(
+        message.entityId,
+        request.name,
+        reference
+      );
+
+      const formattedResponse = formatSavedAddressResponse(saved);
+      const sucessfullActionMessage = "Sucessfully Saved address \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            saved,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          address: saved.address,
+          name: saved.name,
+          formattedResponse,
+        },
+        data: {
+          actions: "SAVE_ADDRESS",
+          saved,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(`[SAVE_ADDRESS] - Error saving address: ${errorMessage}`);
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "SAVE_ADDRESS",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Save 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 as my treasury wallet",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Saved 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 as "treasury". Ask about your treasury wallet any time.',
+          actions: ["SAVE_ADDRESS"],
+        },
+      },
+    ],
+  ],
+};
+
+export const formatSavedAddressResponse = (saved: SavedAddress): string => {
+  return `=== 📒 Saved Address 📒 ===
+
+${saved.name}: ${saved.address}
+
+Refer to it as "my ${saved.name}" in later messages.
+
+=============================`;
+};
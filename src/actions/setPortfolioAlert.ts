@@ -0,0 +1,193 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import { getPortfolioAlertService, getWatchlistService } from "../services";
+import { AlertRule } from "../types";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import { describeAlertCondition, parseAlertConditions } from "../utils/alerts";
+import { NumberFormatOptions, resolveNumberFormat } from "../utils/format";
+
+export const setPortfolioAlertAction: Action = {
+  name: "SET_PORTFOLIO_ALERT",
+  description:
+    "Create alert rules on an address (net worth drop, protocol exposure, new chain or protocol, closed position); the address is watched and the room is notified when a rule triggers",
+
+  similes: ["SET_PORTFOLIO_ALERT", "CREATE_ALERT", "NOTIFY_ON_CHANGE"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text?.toLowerCase() || "";
+
+    const alertKeywords = [
+      "alert",
+      "notify",
+      "let me know",
+      "tell me when",
+      "tell me if",
+      "warn me",
+    ];
+
+    const isMatch = alertKeywords.some((keyword) => content.includes(keyword));
+
+    logger.info(
+      `[SET_PORTFOLIO_ALERT] Validation result: ${isMatch} (keywords checked: ${alertKeywords.length})`
+    );
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    const text = message.content.text ?? "";
+    try {
+      const references = await requireAddressReferences(runtime, text, message);
+      const conditions = parseAlertConditions(text);
+      if (conditions.length === 0) {
+        throw new Error(
+          'No alert condition found. Try "drops by more than 10%", "Aave exposure exceeds $50k", "a new protocol appears" or "a position disappears".'
+        );
+      }
+
+      // Rules are checked on watchlist snapshots, so the address is watched
+      // first and its latest snapshot gives net worth drops their baseline.
+      const watchlist = getWatchlistService(runtime);
+      const added = await watchlist.watch(references, {
+        roomId: message.roomId,
+        entityId: message.entityId,
+      });
+      await watchlist.snapshotAddresses(added.map((entry) => entry.address));
+
+      const alerts = getPortfolioAlertService(runtime);
+      const rules: AlertRule[] = [];
+      for (const reference of references) {
+        const latest = (await watchlist.getSnapshots(reference.address)).at(-1);
+        for (const condition of conditions) {
+          rules.push(
+            await alerts.addRule(condition, {
+              address: reference.address,
+              name: reference.name,
+              roomId: message.roomId,
+              source: message.content.source,
+              baselineNetworth: latest
+                ? Number(latest.portfolio.networth)
+                : undefined,
+            })
+          );
+        }
+      }
+
+      const formattedResponse = formatAlertRulesResponse(
+        rules,
+        resolveNumberFormat(runtime)
+      );
+      const sucessfullActionMessage = "Sucessfully Created portfolio alerts \n";
+
+      if (callback) {
+        await callback({
+          text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+          content: {
+            success: true,
+            rules,
+            formattedResponse,
+          },
+        });
+      }
+
+      return {
+        text: `✅ ${sucessfullActionMessage} \n ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          alertCount: rules.length,
+          formattedResponse,
+        },
+        data: {
+          actions: "SET_PORTFOLIO_ALERT",
+          rules,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      const errorMessage = toUserMessage(error);
+
+      logger.error(
+        `[SET_PORTFOLIO_ALERT] - Error creating alert: ${errorMessage}`
+      );
+
+      if (callback) {
+        await callback({
+          text: errorMessage,
+          content: {
+            success: false,
+            error: errorMessage,
+            errorCode: error instanceof OctavError ? error.code : undefined,
+          },
+        });
+      }
+
+      return {
+        success: false,
+        text: `❌ ${errorMessage}`,
+        data: {
+          actionName: "SET_PORTFOLIO_ALERT",
+          error: errorMessage,
+          errorCode: error instanceof OctavError ? error.code : undefined,
+        },
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Alert me if 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 drops by more than 10%",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "I'll watch 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 and let you know here if its net worth drops by more than 10%",
+          actions: ["SET_PORTFOLIO_ALERT"],
+        },
+      },
+    ],
+  ],
+};
+
+export const formatAlertRulesResponse = (
+  rules: AlertRule[],
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 🔔 Portfolio Alerts 🔔 ===
+
+${rules.map((rule) => `${formatAddressReference(rule)}: ${describeAlertCondition(rule, numberFormat)}`).join("\n")}
+
+Rules are checked every time the watchlist takes a snapshot.
+
+=============================`;
+};
@@ -0,0 +1,424 @@
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  logger,
+  Memory,
+  State,
+} from "@elizaos/core";
+import { OctavError, toUserMessage } from "../errors";
+import {
+  getWatchlistService,
+  PortfolioAlertService,
+  resolveDisplayCurrency,
+} from "../services";
+import { AddressReference, PortfolioSnapshot, WatchedAddress } from "../types";
+import {
+  formatAddressReference,
+  requireAddressReferences,
+} from "../utils/address";
+import {
+  describeCurrency,
+  DisplayCurrency,
+  formatMoney,
+  formatSignedMoney,
+  USD,
+} from "../utils/currency";
+import {
+  formatPercent,
+  NumberFormatOptions,
+  resolveNumberFormat,
+} from "../utils/format";
+import { percentChange } from "../utils/performance";
+
+const UNWATCH_REGEX =
+  /\b(?:unwatch|stop (?:watching|tracking|monitoring)|remove\b.*\bwatchlist)\b/i;
+const WATCH_REGEX = /\b(?:watch|track|monitor)\b|\badd\b.*\bwatchlist\b/i;
+const LIST_WATCHLIST_REGEX =
+  /\bwatchlist\b|\b(?:watching|watched|tracked|monitored)\b/i;
+
+const isUnwatchRequest = (text: string) => UNWATCH_REGEX.test(text);
+const isWatchRequest = (text: string) =>
+  WATCH_REGEX.test(text) && !isUnwatchRequest(text);
+
+/**
+ * Shared error handling of the watchlist actions.
+ */
+const toErrorResult = async (
+  actionName: string,
+  error: unknown,
+  callback?: HandlerCallback
+): Promise<ActionResult> => {
+  const errorMessage = toUserMessage(error);
+
+  logger.error(`[${actionName}] - Error updating watchlist: ${errorMessage}`);
+
+  if (callback) {
+    await callback({
+      text: errorMessage,
+      content: {
+        success: false,
+        error: errorMessage,
+        errorCode: error instanceof OctavError ? error.code : undefined,
+      },
+    });
+  }
+
+  return {
+    success: false,
+    text: `❌ ${errorMessage}`,
+    data: {
+      actionName,
+      error: errorMessage,
+      errorCode: error instanceof OctavError ? error.code : undefined,
+    },
+    error: error instanceof Error ? error : new Error(String(error)),
+  };
+};
+
+export const watchAddressAction: Action = {
+  name: "WATCH_ADDRESS",
+  description:
+    "Add addresses to the watchlist so their portfolios are snapshotted periodically",
+
+  similes: ["WATCH_ADDRESS", "TRACK_ADDRESS", "MONITOR_ADDRESS"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text || "";
+
+    const isMatch = isWatchRequest(content);
+
+    logger.info(`[WATCH_ADDRESS] Validation result: ${isMatch}`);
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const references = await requireAddressReferences(
+        runtime,
+        message.content.text,
+        message
+      );
+      const watchlist = getWatchlistService(runtime);
+      const added = await watchlist.watch(references, {
+        roomId: message.roomId,
+        entityId: message.entityId,
+      });
+      const snapshots = await watchlist.snapshotAddresses(
+        added.map((entry) => entry.address)
+      );
+
+      const formattedResponse = formatWatchResponse(
+        references,
+        added,
+        added.length - snapshots.length
+      );
+      const addresses = added.map((entry) => entry.address);
+
+      if (callback) {
+        await callback({
+          text: `✅ ${formattedResponse}`,
+          content: { success: true, addresses, formattedResponse },
+        });
+      }
+
+      return {
+        text: `✅ ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          watchlistSize: watchlist.list().length,
+          formattedResponse,
+        },
+        data: {
+          actions: "WATCH_ADDRESS",
+          added,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      return toErrorResult("WATCH_ADDRESS", error, callback);
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Watch 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 for me",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "I'll add 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 to the watchlist and snapshot its portfolio regularly",
+          actions: ["WATCH_ADDRESS"],
+        },
+      },
+    ],
+  ],
+};
+
+export const unwatchAddressAction: Action = {
+  name: "UNWATCH_ADDRESS",
+  description: "Remove addresses and their snapshots from the watchlist",
+
+  similes: ["UNWATCH_ADDRESS", "UNTRACK_ADDRESS", "STOP_WATCHING"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const isMatch = isUnwatchRequest(message.content?.text || "");
+
+    logger.info(`[UNWATCH_ADDRESS] Validation result: ${isMatch}`);
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const references = await requireAddressReferences(
+        runtime,
+        message.content.text,
+        message
+      );
+      const watchlist = getWatchlistService(runtime);
+      const removed = await watchlist.unwatch(
+        references.map((reference) => reference.address)
+      );
+      // Alert rules are only checked on watchlist snapshots, so they would
+      // never trigger again.
+      const removedRules =
+        (await runtime
+          .getService<PortfolioAlertService>(PortfolioAlertService.serviceType)
+          ?.removeRules(removed.map((entry) => entry.address))) ?? [];
+
+      const formattedResponse = formatUnwatchResponse(
+        references,
+        removed,
+        removedRules.length
+      );
+      const addresses = removed.map((entry) => entry.address);
+
+      if (callback) {
+        await callback({
+          text: `✅ ${formattedResponse}`,
+          content: { success: true, addresses, formattedResponse },
+        });
+      }
+
+      return {
+        text: `✅ ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          addresses,
+          watchlistSize: watchlist.list().length,
+          formattedResponse,
+        },
+        data: {
+          actions: "UNWATCH_ADDRESS",
+          removed,
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      return toErrorResult("UNWATCH_ADDRESS", error, callback);
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Stop watching 0xEF7F2e81EA14538858d962df34eB1bFDa83da395",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "I'll remove 0xEF7F2e81EA14538858d962df34eB1bFDa83da395 from the watchlist",
+          actions: ["UNWATCH_ADDRESS"],
+        },
+      },
+    ],
+  ],
+};
+
+export const listWatchlistAction: Action = {
+  name: "LIST_WATCHLIST",
+  description:
+    "List watched addresses with their latest net worth and change since they were added",
+
+  similes: ["LIST_WATCHLIST", "SHOW_WATCHLIST", "GET_WATCHLIST"].map(
+    (s) => `OCTAV_${s}`
+  ),
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined
+  ): Promise<boolean> => {
+    const content = message.content?.text || "";
+
+    const isMatch =
+      LIST_WATCHLIST_REGEX.test(content) &&
+      !isWatchRequest(content) &&
+      !isUnwatchRequest(content);
+
+    logger.info(`[LIST_WATCHLIST] Validation result: ${isMatch}`);
+
+    return isMatch;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> = {},
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      const watchlist = getWatchlistService(runtime);
+      const watched = watchlist.list();
+      const snapshots = await Promise.all(
+        watched.map((entry) => watchlist.getSnapshots(entry.address))
+      );
+      const formattedResponse = formatWatchlistResponse(
+        watched,
+        snapshots,
+        await resolveDisplayCurrency(runtime, message.content.text),
+        resolveNumberFormat(runtime)
+      );
+
+      if (callback) {
+        await callback({
+          text: `✅ ${formattedResponse}`,
+          content: { success: true, watched, formattedResponse },
+        });
+      }
+
+      return {
+        text: `✅ ${formattedResponse}`,
+        success: true,
+        values: {
+          operationSucessfull: true,
+          watchlistSize: watched.length,
+          formattedResponse,
+        },
+        data: {
+          actions: "LIST_WATCHLIST",
+          watched,
+          latestSnapshots: snapshots.map((list) => list.at(-1) ?? null),
+          formattedResponse,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      return toErrorResult("LIST_WATCHLIST", error, callback);
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Which wallets are we watching?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Here is the watchlist with the latest snapshot of each wallet",
+          actions: ["LIST_WATCHLIST"],
+        },
+      },
+    ],
+  ],
+};
+
+export const formatWatchResponse = (
+  references: AddressReference[],
+  added: WatchedAddress[],
+  unsnapshotted = 0
+): string => {
+  const skipped = references.length - added.length;
+
+  return `${added.length > 0 ? `Now watching ${added.map(formatAddressReference).join(", ")}.` : "Nothing new to watch."}${skipped > 0 ? ` ${skipped} address${skipped > 1 ? "es were" : " was"} already on the watchlist.` : ""}${unsnapshotted > 0 ? ` The first snapshot of ${unsnapshotted} address${unsnapshotted > 1 ? "es" : ""} failed and will be retried with the next scheduled snapshot.` : ""}`;
+};
+
+export const formatUnwatchResponse = (
+  references: AddressReference[],
+  removed: WatchedAddress[],
+  removedRules = 0
+): string => {
+  const missing = references.length - removed.length;
+
+  return `${removed.length > 0 ? `Stopped watching ${removed.map(formatAddressReference).join(", ")}.` : "None of these addresses were on the watchlist."}${removed.length > 0 && missing > 0 ? ` ${missing} address${missing > 1 ? "es were" : " was"} not on the watchlist.` : ""}${removedRules > 0 ? ` Deleted ${removedRules} alert rule${removedRules > 1 ? "s" : ""} on ${removed.length > 1 ? "them" : "it"}.` : ""}`;
+};
+
+const formatWatchedEntry = (
+  entry: WatchedAddress,
+  snapshots: PortfolioSnapshot[],
+  currency: DisplayCurrency,
+  numberFormat: NumberFormatOptions
+): string => {
+  const latest = snapshots.at(-1);
+  if (!latest) {
+    return `${formatAddressReference(entry)}\nNo snapshot yet.`;
+  }
+
+  const startNetworth =
+    entry.baselineNetworth ?? Number(snapshots[0].portfolio.networth);
+  const networth = Number(latest.portfolio.networth);
+
+  return `${formatAddressReference(entry)}
+Networth: ${formatMoney(networth, currency, numberFormat)} (${new Date(latest.timestamp).toISOString()})
+Since Watched: ${formatSignedMoney(networth - startNetworth, currency, numberFormat)} (${formatPercent(percentChange(startNetworth, networth), numberFormat)}) over ${snapshots.length} snapshots`;
+};
+
+export const formatWatchlistResponse = (
+  watched: WatchedAddress[],
+  snapshots: PortfolioSnapshot[][],
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 👀 Watchlist (in ${describeCurrency(currency)}) 👀 ===
+
+${watched.length > 0 ? watched.map((entry, i) => formatWatchedEntry(entry, snapshots[i] ?? [], currency, numberFormat)).join("\n-----------------------------\n") : "No address is being watched."}
+
+=============================`;
+};
@@ -0,0 +1,197 @@
+import { z } from "zod";
+
+export type OctavErrorCode =
+  | "MISSING_API_KEY"
+  | "INVALID_ADDRESS"
+  | "UNAUTHORIZED"
+  | "RATE_LIMITED"
+  | "INSUFFICIENT_CREDITS"
+  | "UPSTREAM_UNAVAILABLE"
+  | "MALFORMED_RESPONSE"
+  | "REQUEST_FAILED"
+  | "MISSING_EXCHANGE_RATE";
+
+/**
+ * Base class of every error the plugin raises on purpose. Besides what went
+ * wrong, each error carries a hint telling the user what to do next.
+ */
+export class OctavError extends Error {
+  constructor(
+    readonly code: OctavErrorCode,
+    message: string,
+    readonly hint: string
+  ) {
+    super(message);
+    this.name = "OctavError";
+  }
+}
+
+/**
+ * Raised before calling Octav when no API key is configured.
+ */
+export class OctavMissingApiKeyError extends OctavError {
+  constructor() {
+    super(
+      "MISSING_API_KEY",
+      "Octav API key not found",
+      "Set OCTAV_API_KEY in the agent's settings or environment."
+    );
+    this.name = "OctavMissingApiKeyError";
+  }
+}
+
+/**
+ * Raised when a message holds no address Octav can look up, either because
+ * none was given or because the ones given are malformed or unresolvable.
+ */
+export class OctavInvalidAddressError extends OctavError {
+  constructor(
+    message: string,
+    readonly addresses: string[] = []
+  ) {
+    super(
+      "INVALID_ADDRESS",
+      message,
+      "Provide an EVM (0x…) or Solana address, an ENS name or a configured alias."
+    );
+    this.name = "OctavInvalidAddressError";
+  }
+}
+
+/**
+ * Raised when Octav rejects the API key (401 or 403).
+ */
+export class OctavUnauthorizedError extends OctavError {
+  constructor(
+    readonly endpoint: string,
+    readonly status: number
+  ) {
+    super(
+      "UNAUTHORIZED",
+      `Octav rejected the API key for ${endpoint} (${status})`,
+      "Check that OCTAV_API_KEY is valid and has access to this endpoint."
+    );
+    this.name = "OctavUnauthorizedError";
+  }
+}
+
+/**
+ * Raised when Octav keeps rate-limiting the plugin (429) after retries.
+ */
+export class OctavRateLimitError extends OctavError {
+  constructor(
+    readonly endpoint: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(
+      "RATE_LIMITED",
+      `Octav rate limit reached for ${endpoint}`,
+      retryAfterMs !== undefined
+        ? `Try again in ${Math.ceil(retryAfterMs / 1000)}s, or lower OCTAV_RATE_LIMIT_PER_MINUTE to match your API plan.`
+        : "Try again in a moment, or lower OCTAV_RATE_LIMIT_PER_MINUTE to match your API plan."
+    );
+    this.name = "OctavRateLimitError";
+  }
+}
+
+/**
+ * Raised when the API key has run out of credits (402), or when a
+ * non-essential request is held back to keep the last credits in reserve.
+ */
+export class OctavInsufficientCreditsError extends OctavError {
+  constructor(
+    readonly endpoint: string,
+    readonly remainingCredits?: number
+  ) {
+    super(
+      "INSUFFICIENT_CREDITS",
+      remainingCredits !== undefined
+        ? `Only ${remainingCredits} Octav credits left, kept in reserve instead of calling ${endpoint}`
+        : `Not enough Octav credits left to call ${endpoint}`,
+      "Top up your credits at https://data.octav.fi/ and try again."
+    );
+    this.name = "OctavInsufficientCreditsError";
+  }
+}
+
+/**
+ * Raised when Octav cannot be reached or keeps failing (timeouts, network
+ * errors, 5xx responses) after retries.
+ */
+export class OctavUpstreamUnavailableError extends OctavError {
+  constructor(
+    readonly endpoint: string,
+    reason: string,
+    readonly status?: number
+  ) {
+    super(
+      "UPSTREAM_UNAVAILABLE",
+      `Octav is unavailable for ${endpoint}: ${reason}`,
+      "This is usually temporary; please try again in a few minutes."
+    );
+    this.name = "OctavUpstreamUnavailableError";
+  }
+}
+
+/**
+ * Raised when Octav answers with a payload that does not match the expected
+ * schema, e.g. after an upstream API change.
+ */
+export class OctavResponseError extends OctavError {
+  constructor(
+    readonly endpoint: string,
+    readonly field: string,
+    readonly reason: string,
+    readonly zodError?: z.ZodError
+  ) {
+    super(
+      "MALFORMED_RESPONSE",
+      `Octav returned an unexpected shape for ${endpoint} (field "${field}": ${reason})`,
+      "The Octav API may have changed; please report this to the plugin maintainers."
+    );
+    this.name = "OctavResponseError";
+  }
+}
+
+/**
+ * Raised for any other response Octav refuses, such as a 400 on invalid
+ * parameters.
+ */
+export class OctavRequestError extends OctavError {
+  constructor(
+    readonly endpoint: string,
+    readonly status: number,
+    statusText: string
+  ) {
+    super(
+      "REQUEST_FAILED",
+      `Octav request to ${endpoint} failed: ${status} ${statusText}`,
+      "Check the addresses and filters of your request."
+    );
+    this.name = "OctavRequestError";
+  }
+}
+
+/**
+ * Raised when values should be shown in a currency no exchange rate source
+ * knows a rate for.
+ */
+export class OctavMissingExchangeRateError extends OctavError {
+  constructor(readonly currency: string) {
+    super(
+      "MISSING_EXCHANGE_RATE",
+      `No exchange rate available for ${currency}`,
+      `Add ${currency} to OCTAV_FX_RATES, or ask for the values in USD.`
+    );
+    this.name = "OctavMissingExchangeRateError";
+  }
+}
+
+/**
+ * Turns any thrown value into the message shown to users, including what to
+ * do next for the plugin's own errors.
+ */
+export const toUserMessage = (error: unknown): string => {
+  if (error instanceof OctavError) return `${error.message}. ${error.hint}`;
+  return error instanceof Error ? error.message : String(error);
+};
@@ -2,7 +2,33 @@ import type { Plugin } from "@elizaos/core";
 import { logger } from "@elizaos/core";
 import { z } from "zod";
 import { octavProvider } from "./providers";
-import { getPortfolioBalancesAction } from "./actions";
+import {
+  analyzePortfolioRiskAction,
+  comparePortfolioAction,
+  compareWalletsAction,
+  exportPortfolioAction,
+  getCreditsAction,
+  getPnlAction,
+  getPortfolioBalancesAction,
+  getPortfolioHistoryAction,
+  getTokenHoldingsAction,
+  getTransactionsAction,
+  listWatchlistAction,
+  saveAddressAction,
+  setPortfolioAlertAction,
+  unwatchAddressAction,
+  watchAddressAction,
+} from "./actions";
+import {
+  AddressBookService,
+  ExchangeRateService,
+  NameResolutionService,
+  OctavClient,
+  PortfolioAlertService,
+  WatchlistService,
+} from "./services";
+import { FIAT_CURRENCIES } from "./utils/currency";
+import { OUTPUT_FORMATS } from "./utils/outputFormat";
 
 /**
  * Configuration schema for the Octav plugin
@@ -17,6 +43,86 @@ const configSchema = z.object({
       }
       return val;
     }),
+  OCTAV_API_URL: z.string().url().optional(),
+  OCTAV_REQUEST_TIMEOUT_MS: z.coerce.number().int().positive().optional(),
+  OCTAV_MAX_RETRIES: z.coerce.number().int().min(0).optional(),
+  OCTAV_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).optional(),
+  OCTAV_RATE_LIMIT_PER_MINUTE: z.coerce.number().min(0).optional(),
+  OCTAV_CREDIT_WARNING_THRESHOLDS: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, {
+      message:
+        "OCTAV_CREDIT_WARNING_THRESHOLDS must be a comma-separated list of numbers",
+    })
+    .optional(),
+  OCTAV_CREDIT_RESERVE: z.coerce.number().int().min(0).optional(),
+  OCTAV_CREDITS_CHECK_INTERVAL_MS: z.coerce.number().int().min(0).optional(),
+  OCTAV_WATCHLIST_INTERVAL_MS: z.coerce.number().int().min(0).optional(),
+  OCTAV_WATCHLIST_MAX_SNAPSHOTS: z.coerce.number().int().positive().optional(),
+  OCTAV_RISK_MAX_PROTOCOL_PERCENT: z.coerce.number().min(0).optional(),
+  OCTAV_RISK_MAX_CHAIN_PERCENT: z.coerce.number().min(0).optional(),
+  OCTAV_RISK_MAX_CONCENTRATION_INDEX: z.coerce.number().min(0).optional(),
+  OCTAV_DUST_THRESHOLD_USD: z.coerce.number().min(0).optional(),
+  OCTAV_MAX_DISPLAY_ENTRIES: z.coerce.number().int().min(0).optional(),
+  OCTAV_SPAM_TOKENS: z.string().optional(),
+  OCTAV_LLM_EXTRACTION: z.enum(["true", "false"]).optional(),
+  OCTAV_OUTPUT_FORMAT: z.enum(OUTPUT_FORMATS).optional(),
+  OCTAV_DISPLAY_CURRENCY: z
+    .string()
+    .optional()
+    .refine((val) => !val || val.toUpperCase() in FIAT_CURRENCIES, {
+      message: `OCTAV_DISPLAY_CURRENCY must be one of ${Object.keys(FIAT_CURRENCIES).join(", ")}`,
+    }),
+  OCTAV_LOCALE: z
+    .string()
+    .optional()
+    .refine(
+      (val) => {
+        if (!val) return true;
+        try {
+          return Intl.NumberFormat.supportedLocalesOf(val).length > 0;
+        } catch {
+          return false;
+        }
+      },
+      { message: "OCTAV_LOCALE must be a supported BCP 47 locale" }
+    ),
+  OCTAV_COMPACT_NUMBERS: z.enum(["true", "false"]).optional(),
+  OCTAV_NEGATIVE_STYLE: z.enum(["sign", "parentheses"]).optional(),
+  OCTAV_FX_RATES: z
+    .string()
+    .optional()
+    .refine(
+      (val) => {
+        if (!val) return true;
+        try {
+          return typeof JSON.parse(val) === "object";
+        } catch {
+          return false;
+        }
+      },
+      { message: "OCTAV_FX_RATES must be a JSON object" }
+    ),
+  OCTAV_ETHEREUM_RPC_URL: z.string().url().optional(),
+  OCTAV_BASE_RPC_URL: z.string().url().optional(),
+  OCTAV_PORTFOLIO_CACHE_TTL_MS: z.coerce.number().int().min(0).optional(),
+  OCTAV_HISTORICAL_CACHE_TTL_MS: z.coerce.number().int().min(0).optional(),
+  OCTAV_TRANSACTIONS_CACHE_TTL_MS: z.coerce.number().int().min(0).optional(),
+  OCTAV_CACHE_PERSIST: z.enum(["true", "false"]).optional(),
+  OCTAV_ADDRESS_ALIASES: z
+    .string()
+    .optional()
+    .refine(
+      (val) => {
+        if (!val) return true;
+        try {
+          return typeof JSON.parse(val) === "object";
+        } catch {
+          return false;
+        }
+      },
+      { message: "OCTAV_ADDRESS_ALIASES must be a JSON object" }
+    ),
 });
 
 /**
@@ -29,17 +135,48 @@ export const octavPlugin: Plugin = {
 
   config: {
     OCTAV_API_KEY: process.env.OCTAV_API_KEY,
+    OCTAV_API_URL: process.env.OCTAV_API_URL,
+    OCTAV_REQUEST_TIMEOUT_MS: process.env.OCTAV_REQUEST_TIMEOUT_MS,
+    OCTAV_MAX_RETRIES: process.env.OCTAV_MAX_RETRIES,
+    OCTAV_RETRY_BASE_DELAY_MS: process.env.OCTAV_RETRY_BASE_DELAY_MS,
+    OCTAV_RATE_LIMIT_PER_MINUTE: process.env.OCTAV_RATE_LIMIT_PER_MINUTE,
+    OCTAV_CREDIT_WARNING_THRESHOLDS:
+      process.env.OCTAV_CREDIT_WARNING_THRESHOLDS,
+    OCTAV_CREDIT_RESERVE: process.env.OCTAV_CREDIT_RESERVE,
+    OCTAV_CREDITS_CHECK_INTERVAL_MS:
+      process.env.OCTAV_CREDITS_CHECK_INTERVAL_MS,
+    OCTAV_WATCHLIST_INTERVAL_MS: process.env.OCTAV_WATCHLIST_INTERVAL_MS,
+    OCTAV_WATCHLIST_MAX_SNAPSHOTS: process.env.OCTAV_WATCHLIST_MAX_SNAPSHOTS,
+    OCTAV_RISK_MAX_PROTOCOL_PERCENT:
+      process.env.OCTAV_RISK_MAX_PROTOCOL_PERCENT,
+    OCTAV_RISK_MAX_CHAIN_PERCENT: process.env.OCTAV_RISK_MAX_CHAIN_PERCENT,
+    OCTAV_RISK_MAX_CONCENTRATION_INDEX:
+      process.env.OCTAV_RISK_MAX_CONCENTRATION_INDEX,
+    OCTAV_DUST_THRESHOLD_USD: process.env.OCTAV_DUST_THRESHOLD_USD,
+    OCTAV_MAX_DISPLAY_ENTRIES: process.env.OCTAV_MAX_DISPLAY_ENTRIES,
+    OCTAV_SPAM_TOKENS: process.env.OCTAV_SPAM_TOKENS,
+    OCTAV_LLM_EXTRACTION: process.env.OCTAV_LLM_EXTRACTION,
+    OCTAV_OUTPUT_FORMAT: process.env.OCTAV_OUTPUT_FORMAT,
+    OCTAV_DISPLAY_CURRENCY: process.env.OCTAV_DISPLAY_CURRENCY,
+    OCTAV_FX_RATES: process.env.OCTAV_FX_RATES,
+    OCTAV_LOCALE: process.env.OCTAV_LOCALE,
+    OCTAV_COMPACT_NUMBERS: process.env.OCTAV_COMPACT_NUMBERS,
+    OCTAV_NEGATIVE_STYLE: process.env.OCTAV_NEGATIVE_STYLE,
+    OCTAV_ETHEREUM_RPC_URL: process.env.OCTAV_ETHEREUM_RPC_URL,
+    OCTAV_BASE_RPC_URL: process.env.OCTAV_BASE_RPC_URL,
+    OCTAV_ADDRESS_ALIASES: process.env.OCTAV_ADDRESS_ALIASES,
+    OCTAV_PORTFOLIO_CACHE_TTL_MS: process.env.OCTAV_PORTFOLIO_CACHE_TTL_MS,
+    OCTAV_HISTORICAL_CACHE_TTL_MS: process.env.OCTAV_HISTORICAL_CACHE_TTL_MS,
+    OCTAV_TRANSACTIONS_CACHE_TTL_MS:
+      process.env.OCTAV_TRANSACTIONS_CACHE_TTL_MS,
+    OCTAV_CACHE_PERSIST: process.env.OCTAV_CACHE_PERSIST,
   },
 
   async init(config: Record<string, string>) {
     logger.info("Initializing Octav plugin");
 
     try {
-      const validatedConfig = await configSchema.parseAsync(config);
-
-      for (const [key, value] of Object.entries(validatedConfig)) {
-        if (value) process.env[key] = value;
-      }
+      await configSchema.parseAsync(config);
 
       logger.info("Octav plugin initialized");
     } catch (error) {
@@ -52,8 +189,32 @@ export const octavPlugin: Plugin = {
     }
   },
 
-  actions: [getPortfolioBalancesAction],
+  actions: [
+    getPortfolioBalancesAction,
+    getTokenHoldingsAction,
+    getTransactionsAction,
+    getPortfolioHistoryAction,
+    getPnlAction,
+    getCreditsAction,
+    watchAddressAction,
+    unwatchAddressAction,
+    listWatchlistAction,
+    setPortfolioAlertAction,
+    comparePortfolioAction,
+    compareWalletsAction,
+    analyzePortfolioRiskAction,
+    exportPortfolioAction,
+    saveAddressAction,
+  ],
   providers: [octavProvider],
+  services: [
+    OctavClient,
+    NameResolutionService,
+    WatchlistService,
+    PortfolioAlertService,
+    ExchangeRateService,
+    AddressBookService,
+  ],
 };
 
 export default octavPlugin;
@@ -6,59 +6,47 @@ import {
   ProviderResult,
   State,
 } from "@elizaos/core";
-import { OctavPortfolioBalance } from "../types";
-
-const OCTAV_API_URL = "https://api.octav.fi";
+import { OctavError, toUserMessage } from "../errors";
+import { getOctavClient } from "../services";
+import { requireAddressReferences } from "../utils/address";
 
 export const octavProvider: Provider = {
   name: "octav",
 
   get: async (
-    _runtime: IAgentRuntime,
+    runtime: IAgentRuntime,
     message: Memory,
     _state: State | undefined
   ): Promise<ProviderResult> => {
     try {
-      if (!process.env.OCTAV_API_KEY) throw new Error("Octav API not found");
-
-      const content = message.content as { text: string };
-      const addressMatch = content.text.match(/0x[a-fA-F0-9]{40}/);
-      if (!addressMatch) {
-        throw new Error("Valid ethereum address not found in message");
-      }
-      const address = addressMatch[0];
-
-      // Multiple addresses could be provided
-      const params = new URLSearchParams();
-      params.append("addresses", address);
-
-      const url = `${OCTAV_API_URL}/v1/portfolio?${params.toString()}`;
-
-      const responseRaw = await fetch(url, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${process.env.OCTAV_API_KEY}`,
-        },
-      });
-
-      if (!responseRaw.ok)
-        throw new Error(
-          `Failed to fetch portfolio balances for ${address}: ${responseRaw.statusText}`
-        );
-
-      const responseJson = await responseRaw.json();
-      const data = responseJson as OctavPortfolioBalance[];
+      const references = await requireAddressReferences(
+        runtime,
+        message.content.text,
+        message
+      );
+      const addresses = references.map((reference) => reference.address);
+
+      // Auto-fetches are the first calls given up when credits run low.
+      const portfolios = await getOctavClient(runtime).getPortfolios(
+        addresses,
+        {
+          essential: false,
+          roomId: message.roomId,
+        }
+      );
 
       return {
-        data: data[0],
+        data: { portfolios, references },
       };
     } catch (error) {
       logger.error("Error in Octav provider", error?.toString());
+      // Providers must not fail state composition, so the error is handed to
+      // the model as context instead of being thrown.
       return {
-        text:
-          error instanceof Error
-            ? error.message
-            : "Failed to fetch portfolio balances from Octav",
+        text: `Failed to fetch portfolio balances from Octav: ${toUserMessage(error)}`,
+        values: {
+          octavErrorCode: error instanceof OctavError ? error.code : undefined,
+        },
       };
     }
   },
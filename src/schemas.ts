@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { OctavResponseError } from "./errors";
+
+/**
+ * Octav encodes amounts as decimal strings; numbers are accepted too and
+ * normalized so a silent upstream type change cannot surface as `NaN`.
+ */
+const numericStringSchema = z
+  .union([z.string(), z.number()])
+  .transform(String)
+  .refine((value) => value.trim() !== "" && Number.isFinite(Number(value)), {
+    message: "Expected a numeric value",
+  });
+
+const pnlSchema = numericStringSchema.optional().default("0");
+
+export const chainSchema = z.object({
+  name: z.string(),
+  key: z.string(),
+  value: numericStringSchema,
+  totalCostBasis: pnlSchema,
+  totalClosedPnl: pnlSchema,
+  totalOpenPnl: pnlSchema,
+});
+
+export const assetSchema = z.object({
+  symbol: z.string(),
+  name: z.string().optional(),
+  balance: numericStringSchema,
+  price: pnlSchema,
+  value: numericStringSchema,
+  contract: z.string().optional(),
+  chainKey: z.string().optional(),
+  totalCostBasis: pnlSchema,
+  openPnl: pnlSchema,
+});
+
+const assetListSchema = z.array(assetSchema).optional().default([]);
+
+export const positionSchema = z.object({
+  name: z.string(),
+  value: pnlSchema,
+  assets: assetListSchema,
+  supplyAssets: assetListSchema,
+  borrowAssets: assetListSchema,
+  rewardAssets: assetListSchema,
+});
+
+export const positionGroupSchema = z.object({
+  name: z.string(),
+  totalValue: pnlSchema,
+  assets: assetListSchema,
+  protocolPositions: z.array(positionSchema).optional().default([]),
+});
+
+export const protocolChainSchema = chainSchema.extend({
+  protocolPositions: z.record(positionGroupSchema).optional().default({}),
+});
+
+export const protocolSchema = chainSchema.extend({
+  chains: z.record(protocolChainSchema),
+});
+
+export const octavPortfolioBalanceSchema = z.object({
+  address: z.string(),
+  networth: numericStringSchema,
+  assetByProtocols: z.record(protocolSchema),
+  chains: z.record(chainSchema),
+});
+
+export const octavPortfolioResponseSchema = z.array(
+  octavPortfolioBalanceSchema
+);
+
+/**
+ * Transaction timestamps come as unix seconds, unix milliseconds or ISO
+ * strings depending on the chain; they are normalized to milliseconds.
+ */
+const timestampSchema = z
+  .union([z.string(), z.number()])
+  .transform((value) => {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) {
+      return numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+    return Date.parse(String(value));
+  })
+  .refine((value) => Number.isFinite(value), {
+    message: "Expected a timestamp",
+  });
+
+const namedEntitySchema = z.object({
+  key: z.string(),
+  name: z.string(),
+});
+
+export const transactionAssetSchema = z.object({
+  symbol: z.string(),
+  name: z.string().optional(),
+  balance: pnlSchema,
+  value: pnlSchema,
+  contract: z.string().optional(),
+});
+
+const transactionAssetListSchema = z
+  .array(transactionAssetSchema)
+  .optional()
+  .default([]);
+
+export const octavTransactionSchema = z.object({
+  hash: z.string(),
+  timestamp: timestampSchema,
+  chain: namedEntitySchema,
+  type: z.string(),
+  protocol: namedEntitySchema.nullish(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  fees: pnlSchema,
+  feesFiat: pnlSchema,
+  assetsIn: transactionAssetListSchema,
+  assetsOut: transactionAssetListSchema,
+});
+
+export const octavTransactionsResponseSchema = z.array(octavTransactionSchema);
+
+/**
+ * Credits left on the API key, returned by Octav as a bare number.
+ */
+export const octavCreditsResponseSchema = z.coerce
+  .number()
+  .finite()
+  .nonnegative();
+
+/**
+ * Validates a raw Octav payload, throwing an `OctavResponseError` that names
+ * the first offending field when the shape does not match.
+ */
+export const parseOctavResponse = <T extends z.ZodTypeAny>(
+  schema: T,
+  payload: unknown,
+  endpoint: string
+): z.output<T> => {
+  const result = schema.safeParse(payload);
+  if (result.success) return result.data;
+
+  const [issue] = result.error.issues;
+  const field = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+
+  throw new OctavResponseError(endpoint, field, issue.message, result.error);
+};
@@ -0,0 +1,199 @@
+import { IAgentRuntime, logger, Service } from "@elizaos/core";
+import { AddressReference, SavedAddress } from "../types";
+import { addressKey } from "../utils/addressParsing";
+
+const savedCacheKey = (entityId: string) => `octav:address-book:${entityId}`;
+const recentCacheKey = (roomId: string) => `octav:address-book:room:${roomId}`;
+
+/**
+ * Who sent a message and where, so saved names are looked up per user and
+ * "that address" per room.
+ */
+export type AddressContext = {
+  entityId?: string;
+  roomId?: string;
+};
+
+const SELF_REFERENCE_REGEX = /\bmy (?:wallet|address|account)\b/gi;
+const PREVIOUS_REFERENCE_REGEX =
+  /\b(?:that|the same|same|the previous|the last) (?:address|wallet|account)(?:es)?\b/gi;
+
+const GENERIC_NAMES = ["wallet", "address", "account"];
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const toReference = ({
+  address,
+  family,
+  name,
+}: SavedAddress): AddressReference => ({ address, family, name });
+
+/**
+ * Normalizes the name an address is saved under: "my Treasury wallet"
+ * becomes "treasury", while "my wallet" stays "wallet".
+ */
+export const normalizeSavedName = (name: string): string => {
+  const words = name
+    .toLowerCase()
+    .replace(/["'`]/g, "")
+    .trim()
+    .replace(/^(?:my|our|the)\s+/, "")
+    .split(/\s+/)
+    .filter(Boolean);
+  const withoutSuffix = words.slice(0, -1);
+
+  return GENERIC_NAMES.includes(words.at(-1) ?? "") && withoutSuffix.length > 0
+    ? withoutSuffix.join(" ")
+    : words.join(" ") || "wallet";
+};
+
+/**
+ * Remembers addresses across messages: the ones each user saved under a
+ * name ("treasury", "my wallet") and the ones last used in each room
+ * ("that address"). Both are kept in the runtime's cache.
+ */
+export class AddressBookService extends Service {
+  static serviceType = "octav-address-book";
+
+  capabilityDescription =
+    "Remembers saved and recently used addresses per user and room";
+
+  static async start(runtime: IAgentRuntime): Promise<AddressBookService> {
+    logger.info("[AddressBook] - Started");
+    return new AddressBookService(runtime);
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<AddressBookService>(
+      AddressBookService.serviceType
+    );
+    if (service) await service.stop();
+  }
+
+  async stop(): Promise<void> {
+    logger.info("[AddressBook] - Stopped");
+  }
+
+  /**
+   * Addresses a user saved, most recent first.
+   */
+  async list(entityId: string): Promise<SavedAddress[]> {
+    return (
+      (await this.runtime?.getCache<SavedAddress[]>(savedCacheKey(entityId))) ??
+      []
+    );
+  }
+
+  /**
+   * Saves an address under a name, replacing what the name pointed to.
+   */
+  async save(
+    entityId: string,
+    name: string,
+    reference: AddressReference
+  ): Promise<SavedAddress> {
+    const saved: SavedAddress = {
+      address: reference.address,
+      family: reference.family,
+      name: normalizeSavedName(name),
+      savedAt: Date.now(),
+    };
+    const entries = (await this.list(entityId)).filter(
+      (entry) => entry.name !== saved.name
+    );
+    await this.runtime?.setCache(savedCacheKey(entityId), [saved, ...entries]);
+
+    return saved;
+  }
+
+  /**
+   * Addresses last used in a room.
+   */
+  async getRecent(roomId: string): Promise<AddressReference[]> {
+    return (
+      (await this.runtime?.getCache<AddressReference[]>(
+        recentCacheKey(roomId)
+      )) ?? []
+    );
+  }
+
+  /**
+   * Replaces the addresses "that address" refers to in a room.
+   */
+  async remember(
+    roomId: string,
+    references: AddressReference[]
+  ): Promise<void> {
+    await this.runtime?.setCache(recentCacheKey(roomId), references);
+  }
+
+  /**
+   * Finds the saved names of the sender, "my wallet" and references to the
+   * room's last addresses in a message, in order of appearance.
+   */
+  async findReferences(
+    text: string,
+    { entityId, roomId }: AddressContext
+  ): Promise<(AddressReference & { index: number })[]> {
+    const saved = entityId ? await this.list(entityId) : [];
+    const matches: (AddressReference & { index: number })[] = [];
+
+    for (const entry of saved) {
+      // A wallet saved as "wallet" is only meant when the user says "my".
+      const owner = GENERIC_NAMES.includes(entry.name)
+        ? "(?:my|our) "
+        : "(?:(?:my|our) )?";
+      const regex = new RegExp(
+        `(?<![\\w.])${owner}${escapeRegex(entry.name)}(?: wallet| address| account)?(?![\\w.])`,
+        "gi"
+      );
+      for (const match of text.matchAll(regex)) {
+        matches.push({ ...toReference(entry), index: match.index ?? 0 });
+      }
+    }
+
+    // Without a wallet saved under that name, "my wallet" is the last one
+    // the user saved.
+    const [latest] = saved;
+    if (latest && !saved.some((entry) => entry.name === "wallet")) {
+      for (const match of text.matchAll(SELF_REFERENCE_REGEX)) {
+        matches.push({ ...toReference(latest), index: match.index ?? 0 });
+      }
+    }
+
+    const recent = roomId ? await this.getRecent(roomId) : [];
+    for (const match of text.matchAll(PREVIOUS_REFERENCE_REGEX)) {
+      matches.push(
+        ...recent.map((reference) => ({
+          ...reference,
+          index: match.index ?? 0,
+        }))
+      );
+    }
+
+    const seen = new Set<string>();
+    return matches
+      .sort((a, b) => a.index - b.index)
+      .filter((match) => {
+        const key = addressKey(match.address);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+}
+
+/**
+ * Returns the runtime's address book, failing loudly when the plugin's
+ * service has not been registered.
+ */
+export const getAddressBookService = (
+  runtime: IAgentRuntime
+): AddressBookService => {
+  const service = runtime.getService<AddressBookService>(
+    AddressBookService.serviceType
+  );
+  if (!service) throw new Error("Octav address book service not available");
+  return service;
+};
@@ -0,0 +1,212 @@
+import { IAgentRuntime, logger, Service, UUID } from "@elizaos/core";
+import { AlertCondition, AlertRule, PortfolioSnapshot } from "../types";
+import { formatAddressReference } from "../utils/address";
+import { addressKey } from "../utils/addressParsing";
+import { describeAlertCondition, evaluateAlertRule } from "../utils/alerts";
+import { describeCurrency, DisplayCurrency, USD } from "../utils/currency";
+import { NumberFormatOptions, resolveNumberFormat } from "../utils/format";
+import { resolveDisplayCurrency } from "./exchangeRates";
+
+const ALERTS_CACHE_KEY = "octav:alerts";
+
+export type AlertTrigger = {
+  rule: AlertRule;
+  details: string[];
+  timestamp: number;
+};
+
+export const formatAlertMessage = (
+  { rule, details, timestamp }: AlertTrigger,
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  return `=== 🚨 Portfolio Alert 🚨 ===
+
+Address: ${formatAddressReference(rule)}
+Rule: ${describeAlertCondition(rule, numberFormat)}
+Triggered At: ${new Date(timestamp).toISOString()}
+
+Details (in ${describeCurrency(currency)}):
+-----------------------------
+${details.join("\n")}
+
+=============================`;
+};
+
+/**
+ * Keeps the alert rules users set on addresses and checks them against each
+ * new snapshot taken by the watchlist, notifying the room a rule came from
+ * when it triggers.
+ */
+export class PortfolioAlertService extends Service {
+  static serviceType = "octav-alerts";
+
+  capabilityDescription =
+    "Notifies rooms when watched portfolios match alert rules";
+
+  private rules: AlertRule[] = [];
+
+  static async start(runtime: IAgentRuntime): Promise<PortfolioAlertService> {
+    const service = new PortfolioAlertService(runtime);
+    service.rules =
+      (await runtime.getCache<AlertRule[]>(ALERTS_CACHE_KEY)) ?? [];
+
+    logger.info(
+      `[PortfolioAlerts] - Started with ${service.rules.length} alert rules`
+    );
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<PortfolioAlertService>(
+      PortfolioAlertService.serviceType
+    );
+    if (service) await service.stop();
+  }
+
+  async stop(): Promise<void> {
+    logger.info("[PortfolioAlerts] - Stopped");
+  }
+
+  listRules(address?: string): AlertRule[] {
+    return address === undefined
+      ? [...this.rules]
+      : this.rules.filter(
+          (rule) => addressKey(rule.address) === addressKey(address)
+        );
+  }
+
+  async addRule(
+    condition: AlertCondition,
+    target: Pick<
+      AlertRule,
+      "address" | "name" | "roomId" | "source" | "baselineNetworth"
+    >
+  ): Promise<AlertRule> {
+    const rule: AlertRule = {
+      ...condition,
+      ...target,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+    };
+
+    this.rules.push(rule);
+    await this.runtime?.setCache(ALERTS_CACHE_KEY, this.rules);
+    return rule;
+  }
+
+  /**
+   * Deletes the rules of addresses, returning the deleted ones.
+   */
+  async removeRules(addresses: string[]): Promise<AlertRule[]> {
+    const keys = new Set(addresses.map(addressKey));
+    const removed = this.rules.filter((rule) =>
+      keys.has(addressKey(rule.address))
+    );
+    if (removed.length === 0) return [];
+
+    this.rules = this.rules.filter((rule) => !removed.includes(rule));
+    await this.runtime?.setCache(ALERTS_CACHE_KEY, this.rules);
+    return removed;
+  }
+
+  /**
+   * Checks the rules of an address against its latest snapshot and sends a
+   * message for each rule that triggered.
+   */
+  async evaluate(
+    previous: PortfolioSnapshot,
+    current: PortfolioSnapshot
+  ): Promise<AlertTrigger[]> {
+    const rules = this.listRules(current.address);
+
+    // Rules created before their address had a snapshot measure net worth
+    // drops from the first one they see.
+    const unset = rules.filter(
+      (rule) =>
+        rule.type === "networth_drop" && rule.baselineNetworth === undefined
+    );
+    for (const rule of unset) {
+      rule.baselineNetworth = Number(previous.portfolio.networth);
+    }
+    if (unset.length > 0) {
+      await this.runtime?.setCache(ALERTS_CACHE_KEY, this.rules);
+    }
+
+    const currency = await this.resolveCurrency();
+    const numberFormat = resolveNumberFormat(this.runtime);
+    const triggers = rules
+      .map((rule) => ({
+        rule,
+        details: evaluateAlertRule(
+          rule,
+          previous.portfolio,
+          current.portfolio,
+          currency,
+          numberFormat
+        ),
+        timestamp: current.timestamp,
+      }))
+      .filter((trigger) => trigger.details.length > 0);
+
+    for (const trigger of triggers) {
+      await this.notify(trigger, currency, numberFormat);
+    }
+
+    return triggers;
+  }
+
+  /**
+   * Alerts are not replies to a message, so values are shown in
+   * `OCTAV_DISPLAY_CURRENCY`, or USD when no rate is known for it.
+   */
+  private async resolveCurrency(): Promise<DisplayCurrency> {
+    try {
+      return await resolveDisplayCurrency(this.runtime, undefined);
+    } catch (error) {
+      logger.warn(
+        `[PortfolioAlerts] - Showing alerts in USD: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return USD;
+    }
+  }
+
+  private async notify(
+    trigger: AlertTrigger,
+    currency: DisplayCurrency,
+    numberFormat: NumberFormatOptions
+  ): Promise<void> {
+    const text = formatAlertMessage(trigger, currency, numberFormat);
+    const { roomId, source } = trigger.rule;
+
+    if (!roomId) {
+      logger.warn(`[PortfolioAlerts] - Alert without a room:\n${text}`);
+      return;
+    }
+
+    try {
+      await this.runtime.sendMessageToTarget(
+        { source: source ?? "octav", roomId: roomId as UUID },
+        { text, source: "octav" }
+      );
+    } catch (error) {
+      logger.error(
+        `[PortfolioAlerts] - Failed to notify room ${roomId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Returns the runtime's alert service, failing loudly when the plugin's
+ * service has not been registered.
+ */
+export const getPortfolioAlertService = (
+  runtime: IAgentRuntime
+): PortfolioAlertService => {
+  const service = runtime.getService<PortfolioAlertService>(
+    PortfolioAlertService.serviceType
+  );
+  if (!service) throw new Error("Octav alert service not available");
+  return service;
+};
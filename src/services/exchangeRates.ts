@@ -0,0 +1,198 @@
+import { IAgentRuntime, logger, Service } from "@elizaos/core";
+import { OctavMissingExchangeRateError } from "../errors";
+import {
+  DisplayCurrency,
+  detectCurrency,
+  FiatCurrency,
+  isFiatCurrency,
+  USD,
+} from "../utils/currency";
+
+/**
+ * Approximate units of each currency per US dollar, used when no other
+ * source knows a rate. Override them with `OCTAV_FX_RATES`.
+ */
+export const DEFAULT_EXCHANGE_RATES: Record<FiatCurrency, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  CHF: 0.88,
+  CAD: 1.37,
+  AUD: 1.52,
+  CNY: 7.2,
+  HKD: 7.8,
+  SGD: 1.34,
+  KRW: 1380,
+  INR: 83,
+};
+
+/**
+ * Provides USD exchange rates. Implementations are injected into
+ * `ExchangeRateService`, so a live feed can take precedence over the local
+ * table and tests can use fixed rates.
+ */
+export interface ExchangeRateSource {
+  readonly name: string;
+  /** Whether the rates are rough figures rather than current market rates. */
+  readonly approximate?: boolean;
+  /** Units of `currency` worth one US dollar, or `null` when unknown. */
+  getRate(currency: FiatCurrency): Promise<number | null>;
+}
+
+/**
+ * Serves rates from a local table, e.g. `{ "EUR": 0.92 }`.
+ */
+export class StaticRateSource implements ExchangeRateSource {
+  readonly name = "table";
+  readonly approximate = true;
+
+  constructor(
+    private readonly rates: Partial<
+      Record<string, number>
+    > = DEFAULT_EXCHANGE_RATES
+  ) {}
+
+  async getRate(currency: FiatCurrency): Promise<number | null> {
+    const rate = this.rates[currency];
+    return typeof rate === "number" && rate > 0 ? rate : null;
+  }
+}
+
+/**
+ * Reads the `OCTAV_FX_RATES` JSON table from the runtime settings, on top of
+ * the default rates.
+ */
+const readRates = (runtime: IAgentRuntime): Record<string, number> => {
+  const raw =
+    runtime.getSetting("OCTAV_FX_RATES") ?? process.env.OCTAV_FX_RATES;
+  if (!raw) return DEFAULT_EXCHANGE_RATES;
+
+  try {
+    return {
+      ...DEFAULT_EXCHANGE_RATES,
+      ...(typeof raw === "string" ? JSON.parse(raw) : raw),
+    };
+  } catch {
+    logger.warn("[ExchangeRates] - OCTAV_FX_RATES is not valid JSON");
+    return DEFAULT_EXCHANGE_RATES;
+  }
+};
+
+/**
+ * Converts Octav's USD values into the currency users want to read, asking
+ * rate sources in order. The first source knowing a rate wins.
+ */
+export class ExchangeRateService extends Service {
+  static serviceType = "octav-exchange-rates";
+
+  capabilityDescription =
+    "Provides exchange rates to display portfolio values in fiat currencies";
+
+  constructor(
+    runtime?: IAgentRuntime,
+    readonly sources: ExchangeRateSource[] = []
+  ) {
+    super(runtime);
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<ExchangeRateService> {
+    const sources: ExchangeRateSource[] = [
+      new StaticRateSource(readRates(runtime)),
+    ];
+
+    logger.info(
+      `[ExchangeRates] - Started with sources: ${sources.map((s) => s.name).join(", ")}`
+    );
+    return new ExchangeRateService(runtime, sources);
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<ExchangeRateService>(
+      ExchangeRateService.serviceType
+    );
+    if (service) await service.stop();
+  }
+
+  async stop(): Promise<void> {
+    logger.info("[ExchangeRates] - Stopped");
+  }
+
+  /**
+   * Adds a source ahead of the existing ones, e.g. a live rate feed that
+   * should win over the local table.
+   */
+  register(source: ExchangeRateSource): void {
+    this.sources.unshift(source);
+  }
+
+  async getRate(currency: FiatCurrency): Promise<number | null> {
+    return (await this.getExchangeRate(currency))?.rate ?? null;
+  }
+
+  /**
+   * Same as `getRate`, also telling whether the source that knew the rate
+   * only has approximate ones.
+   */
+  async getExchangeRate(
+    currency: FiatCurrency
+  ): Promise<{ rate: number; approximate: boolean } | null> {
+    if (currency === "USD") return { rate: 1, approximate: false };
+
+    for (const source of this.sources) {
+      try {
+        const rate = await source.getRate(currency);
+        if (rate !== null) {
+          return { rate, approximate: source.approximate ?? false };
+        }
+      } catch (error) {
+        logger.warn(
+          `[ExchangeRates] - ${source.name} failed to provide ${currency}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Returns the runtime's exchange rate service, failing loudly when the
+ * plugin's service has not been registered.
+ */
+export const getExchangeRateService = (
+  runtime: IAgentRuntime
+): ExchangeRateService => {
+  const service = runtime.getService<ExchangeRateService>(
+    ExchangeRateService.serviceType
+  );
+  if (!service) throw new Error("Octav exchange rate service not available");
+  return service;
+};
+
+/**
+ * Currency to display values in: the one the message asks for, else
+ * `OCTAV_DISPLAY_CURRENCY`, else USD.
+ */
+export const resolveDisplayCurrency = async (
+  runtime: IAgentRuntime,
+  text: string | undefined
+): Promise<DisplayCurrency> => {
+  const configured =
+    runtime.getSetting("OCTAV_DISPLAY_CURRENCY") ??
+    process.env.OCTAV_DISPLAY_CURRENCY;
+  const code =
+    detectCurrency(text) ??
+    (typeof configured === "string" && isFiatCurrency(configured.toUpperCase())
+      ? (configured.toUpperCase() as FiatCurrency)
+      : "USD");
+  if (code === "USD") return USD;
+
+  const exchangeRate =
+    await getExchangeRateService(runtime).getExchangeRate(code);
+  if (exchangeRate === null) {
+    throw new OctavMissingExchangeRateError(code);
+  }
+
+  return { code, ...exchangeRate };
+};
@@ -0,0 +1,59 @@
+export {
+  getOctavClient,
+  OCTAV_CACHE_TTL_MS,
+  OCTAV_CREDIT_RESERVE,
+  OCTAV_CREDIT_WARNING_THRESHOLDS,
+  OCTAV_CREDITS_CHECK_INTERVAL_MS,
+  OCTAV_MAX_RETRIES,
+  OCTAV_RATE_LIMIT_PER_MINUTE,
+  OCTAV_REQUEST_TIMEOUT_MS,
+  OCTAV_RETRY_BASE_DELAY_MS,
+  OctavClient,
+  resolveOctavClientConfig,
+  type OctavClientConfig,
+  type OctavEndpoint,
+  type OctavRequestOptions,
+} from "./octavClient";
+export { TokenBucket } from "./rateLimiter";
+export { ResponseCache, type CacheStore } from "./responseCache";
+export {
+  formatAlertMessage,
+  getPortfolioAlertService,
+  PortfolioAlertService,
+  type AlertTrigger,
+} from "./alerts";
+export {
+  getWatchlistService,
+  OCTAV_WATCHLIST_INTERVAL_MS,
+  OCTAV_WATCHLIST_MAX_SNAPSHOTS,
+  resolveWatchlistConfig,
+  WatchlistService,
+  type WatchlistConfig,
+} from "./watchlist";
+export {
+  UsageTracker,
+  type UsageReport,
+  type UsageScope,
+} from "./usageTracker";
+export {
+  DEFAULT_EXCHANGE_RATES,
+  ExchangeRateService,
+  getExchangeRateService,
+  resolveDisplayCurrency,
+  StaticRateSource,
+  type ExchangeRateSource,
+} from "./exchangeRates";
+export {
+  AddressBookService,
+  getAddressBookService,
+  normalizeSavedName,
+  type AddressContext,
+} from "./addressBook";
+export {
+  AliasResolver,
+  BasenameResolver,
+  EnsResolver,
+  NameResolutionService,
+  type NameMatch,
+  type NameResolver,
+} from "./nameResolution";
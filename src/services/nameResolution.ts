@@ -0,0 +1,256 @@
+import { IAgentRuntime, logger, Service } from "@elizaos/core";
+import { createPublicClient, http, parseAbi, type PublicClient } from "viem";
+import { base, mainnet } from "viem/chains";
+import { namehash, normalize } from "viem/ens";
+import { AddressReference } from "../types";
+import { detectAddressFamily } from "../utils/addressParsing";
+
+/**
+ * A name found in a message, with its position so references can be kept in
+ * the order the user wrote them.
+ */
+export type NameMatch = {
+  name: string;
+  index: number;
+};
+
+/**
+ * Resolves human-readable names (ENS, Basenames, aliases…) to addresses.
+ * Implementations are injected into `NameResolutionService`, which lets
+ * tests replace network lookups with local stand-ins.
+ */
+export interface NameResolver {
+  readonly name: string;
+  findNames(text: string): NameMatch[];
+  resolve(name: string): Promise<string | null>;
+}
+
+const BASENAME_REGEX = /\b[a-z0-9-]+\.base\.eth\b/gi;
+const ENS_NAME_REGEX = /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.eth\b/gi;
+const BASENAME_L2_RESOLVER = "0xC6d566A56A1aFf6508b41f6c90ff131615583BCD";
+
+const findMatches = (text: string, regex: RegExp): NameMatch[] =>
+  [...text.matchAll(regex)].map((match) => ({
+    name: match[0].toLowerCase(),
+    index: match.index ?? 0,
+  }));
+
+/**
+ * Resolves `.eth` names on Ethereum mainnet.
+ */
+export class EnsResolver implements NameResolver {
+  readonly name = "ens";
+
+  constructor(private readonly client: Pick<PublicClient, "getEnsAddress">) {}
+
+  findNames(text: string): NameMatch[] {
+    return findMatches(text, ENS_NAME_REGEX).filter(
+      (match) => !match.name.endsWith(".base.eth")
+    );
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    return this.client.getEnsAddress({ name: normalize(name) });
+  }
+}
+
+/**
+ * Resolves `.base.eth` names through the Basenames resolver on Base.
+ */
+export class BasenameResolver implements NameResolver {
+  readonly name = "basenames";
+
+  constructor(private readonly client: Pick<PublicClient, "readContract">) {}
+
+  findNames(text: string): NameMatch[] {
+    return findMatches(text, BASENAME_REGEX);
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    const address = await this.client.readContract({
+      address: BASENAME_L2_RESOLVER,
+      abi: parseAbi(["function addr(bytes32 node) view returns (address)"]),
+      functionName: "addr",
+      args: [namehash(normalize(name))],
+    });
+
+    return /^0x0{40}$/i.test(address) ? null : address;
+  }
+}
+
+/**
+ * Resolves names from a local table, e.g. `{ "treasury": "0x…" }`.
+ * Aliases are matched case-insensitively as whole words.
+ */
+export class AliasResolver implements NameResolver {
+  readonly name = "alias";
+
+  private readonly aliases: Map<string, string>;
+
+  constructor(aliases: Record<string, string> = {}) {
+    this.aliases = new Map(
+      Object.entries(aliases).map(([alias, address]) => [
+        alias.toLowerCase(),
+        address,
+      ])
+    );
+  }
+
+  findNames(text: string): NameMatch[] {
+    const content = text.toLowerCase();
+
+    return [...this.aliases.keys()].flatMap((alias) =>
+      findMatches(
+        content,
+        new RegExp(
+          `(?<![\\w.])${alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w.])`,
+          "g"
+        )
+      )
+    );
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    return this.aliases.get(name.toLowerCase()) ?? null;
+  }
+}
+
+/**
+ * Reads the `OCTAV_ADDRESS_ALIASES` JSON table from the runtime settings.
+ */
+const readAliases = (runtime: IAgentRuntime): Record<string, string> => {
+  const raw =
+    runtime.getSetting("OCTAV_ADDRESS_ALIASES") ??
+    process.env.OCTAV_ADDRESS_ALIASES;
+  if (!raw) return {};
+
+  try {
+    return typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    logger.warn("[NameResolution] - OCTAV_ADDRESS_ALIASES is not valid JSON");
+    return {};
+  }
+};
+
+const readRpcUrl = (runtime: IAgentRuntime, key: string) =>
+  runtime.getSetting(key) ?? process.env[key] ?? undefined;
+
+/**
+ * Turns names mentioned in messages into addresses, through resolvers that
+ * are consulted in order. The first resolver claiming a name wins.
+ */
+export class NameResolutionService extends Service {
+  static serviceType = "octav-name-resolution";
+
+  capabilityDescription =
+    "Resolves ENS names, Basenames and address aliases to addresses";
+
+  constructor(
+    runtime?: IAgentRuntime,
+    readonly resolvers: NameResolver[] = []
+  ) {
+    super(runtime);
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<NameResolutionService> {
+    const resolvers: NameResolver[] = [
+      new AliasResolver(readAliases(runtime)),
+      new BasenameResolver(
+        createPublicClient({
+          chain: base,
+          transport: http(readRpcUrl(runtime, "OCTAV_BASE_RPC_URL")),
+        })
+      ),
+      new EnsResolver(
+        createPublicClient({
+          chain: mainnet,
+          transport: http(readRpcUrl(runtime, "OCTAV_ETHEREUM_RPC_URL")),
+        })
+      ),
+    ];
+
+    logger.info(
+      `[NameResolution] - Started with resolvers: ${resolvers.map((r) => r.name).join(", ")}`
+    );
+    return new NameResolutionService(runtime, resolvers);
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<NameResolutionService>(
+      NameResolutionService.serviceType
+    );
+    if (service) await service.stop();
+  }
+
+  async stop(): Promise<void> {
+    logger.info("[NameResolution] - Stopped");
+  }
+
+  /**
+   * Finds every resolvable name in a message, in order of appearance.
+   */
+  findNames(text: string): (NameMatch & { resolver: NameResolver })[] {
+    const seen = new Set<string>();
+
+    return this.resolvers
+      .flatMap((resolver) =>
+        resolver.findNames(text).map((match) => ({ ...match, resolver }))
+      )
+      .sort((a, b) => a.index - b.index)
+      .filter((match) => {
+        if (seen.has(match.name)) return false;
+        seen.add(match.name);
+        return true;
+      });
+  }
+
+  /**
+   * Resolves every name found in a message. Names no resolver could turn
+   * into an address, and names pointing to something that is not a
+   * supported address, are reported separately instead of failing the lookup.
+   */
+  async resolveNames(text: string): Promise<{
+    resolved: (AddressReference & NameMatch)[];
+    unresolved: string[];
+    invalid: (NameMatch & { address: string })[];
+  }> {
+    const matches = this.findNames(text);
+    const addresses = await Promise.all(
+      matches.map(async (match) => {
+        try {
+          return await match.resolver.resolve(match.name);
+        } catch (error) {
+          logger.warn(
+            `[NameResolution] - ${match.resolver.name} failed to resolve ${match.name}: ${error instanceof Error ? error.message : String(error)}`
+          );
+          return null;
+        }
+      })
+    );
+
+    const resolved: (AddressReference & NameMatch)[] = [];
+    const unresolved: string[] = [];
+    const invalid: (NameMatch & { address: string })[] = [];
+    matches.forEach((match, i) => {
+      const address = addresses[i];
+      if (!address) {
+        unresolved.push(match.name);
+        return;
+      }
+
+      const family = detectAddressFamily(address);
+      if (family) {
+        resolved.push({
+          address,
+          family,
+          name: match.name,
+          index: match.index,
+        });
+      } else {
+        invalid.push({ address, name: match.name, index: match.index });
+      }
+    });
+
+    return { resolved, unresolved, invalid };
+  }
+}
@@ -0,0 +1,548 @@
+import { IAgentRuntime, logger, Service } from "@elizaos/core";
+import { z } from "zod";
+import {
+  OctavError,
+  OctavInsufficientCreditsError,
+  OctavMissingApiKeyError,
+  OctavRateLimitError,
+  OctavRequestError,
+  OctavResponseError,
+  OctavUnauthorizedError,
+  OctavUpstreamUnavailableError,
+} from "../errors";
+import {
+  octavCreditsResponseSchema,
+  octavPortfolioResponseSchema,
+  octavTransactionsResponseSchema,
+  parseOctavResponse,
+} from "../schemas";
+import {
+  OctavPortfolioBalance,
+  OctavTransaction,
+  OctavTransactionsQuery,
+} from "../types";
+import { formatDate } from "../utils/dateRange";
+import { readNumberSetting, readSetting } from "../utils/settings";
+import { sleep, TokenBucket } from "./rateLimiter";
+import { ResponseCache } from "./responseCache";
+import { UsageTracker } from "./usageTracker";
+
+export const OCTAV_API_URL = "https://api.octav.fi";
+export const OCTAV_REQUEST_TIMEOUT_MS = 30_000;
+export const OCTAV_MAX_RETRIES = 3;
+export const OCTAV_RETRY_BASE_DELAY_MS = 500;
+export const OCTAV_RATE_LIMIT_PER_MINUTE = 60;
+export const OCTAV_CREDIT_WARNING_THRESHOLDS = [1000, 100];
+export const OCTAV_CREDIT_RESERVE = 50;
+export const OCTAV_CREDITS_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+const OCTAV_MAX_RETRY_DELAY_MS = 30_000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export type OctavEndpoint = "portfolio" | "historical" | "transactions";
+
+/**
+ * How long responses of each endpoint are reused before Octav is called
+ * again. Past snapshots never change, so they are kept much longer.
+ */
+export const OCTAV_CACHE_TTL_MS: Record<OctavEndpoint, number> = {
+  portfolio: 60_000,
+  historical: 24 * 60 * 60 * 1000,
+  transactions: 60_000,
+};
+
+export type OctavClientConfig = {
+  apiKey?: string;
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  /** Requests allowed per minute by the API plan, `0` for no limit. */
+  rateLimitPerMinute: number;
+  cacheTtlMs: Record<OctavEndpoint, number>;
+  persistCache: boolean;
+  creditWarningThresholds: number[];
+  /** Credits kept for explicit requests once the budget runs low. */
+  creditReserve: number;
+  /** How often remaining credits are read from Octav, `0` to never. */
+  creditsCheckIntervalMs: number;
+};
+
+/**
+ * Per-call options of the client.
+ */
+export type OctavRequestOptions = {
+  /** Bypasses cached responses, e.g. when the user asks for a refresh. */
+  refresh?: boolean;
+  /**
+   * Whether a user asked for the data. Non-essential requests, such as
+   * provider auto-fetches, are refused when credits run low.
+   */
+  essential?: boolean;
+  /** Room the request is made for, used to attribute usage. */
+  roomId?: string;
+};
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export const resolveOctavClientConfig = (
+  runtime?: IAgentRuntime
+): OctavClientConfig => {
+  const readTtl = (endpoint: OctavEndpoint) =>
+    readNumberSetting(
+      runtime,
+      `OCTAV_${endpoint.toUpperCase()}_CACHE_TTL_MS`,
+      OCTAV_CACHE_TTL_MS[endpoint]
+    );
+
+  return {
+    apiKey: readSetting(runtime, "OCTAV_API_KEY"),
+    baseUrl: (readSetting(runtime, "OCTAV_API_URL") ?? OCTAV_API_URL).replace(
+      /\/+$/,
+      ""
+    ),
+    timeoutMs: readNumberSetting(
+      runtime,
+      "OCTAV_REQUEST_TIMEOUT_MS",
+      OCTAV_REQUEST_TIMEOUT_MS,
+      1
+    ),
+    maxRetries: readNumberSetting(
+      runtime,
+      "OCTAV_MAX_RETRIES",
+      OCTAV_MAX_RETRIES
+    ),
+    retryBaseDelayMs: readNumberSetting(
+      runtime,
+      "OCTAV_RETRY_BASE_DELAY_MS",
+      OCTAV_RETRY_BASE_DELAY_MS
+    ),
+    rateLimitPerMinute: readNumberSetting(
+      runtime,
+      "OCTAV_RATE_LIMIT_PER_MINUTE",
+      OCTAV_RATE_LIMIT_PER_MINUTE
+    ),
+    cacheTtlMs: {
+      portfolio: readTtl("portfolio"),
+      historical: readTtl("historical"),
+      transactions: readTtl("transactions"),
+    },
+    persistCache: readSetting(runtime, "OCTAV_CACHE_PERSIST") === "true",
+    creditWarningThresholds:
+      readSetting(runtime, "OCTAV_CREDIT_WARNING_THRESHOLDS")
+        ?.split(",")
+        .map(Number)
+        .filter((threshold) => threshold >= 0) ??
+      OCTAV_CREDIT_WARNING_THRESHOLDS,
+    creditReserve: readNumberSetting(
+      runtime,
+      "OCTAV_CREDIT_RESERVE",
+      OCTAV_CREDIT_RESERVE
+    ),
+    creditsCheckIntervalMs: readNumberSetting(
+      runtime,
+      "OCTAV_CREDITS_CHECK_INTERVAL_MS",
+      OCTAV_CREDITS_CHECK_INTERVAL_MS
+    ),
+  };
+};
+
+/**
+ * Typed client for the Octav API, registered once per runtime so every
+ * action and provider shares the same base URL, credentials and timeouts.
+ */
+export class OctavClient extends Service {
+  static serviceType = "octav";
+
+  capabilityDescription =
+    "Fetches portfolio and blockchain data from the Octav API";
+
+  readonly settings: OctavClientConfig;
+
+  private readonly cache: ResponseCache;
+  private readonly rateLimiter?: TokenBucket;
+  private creditsTimer?: ReturnType<typeof setInterval>;
+
+  readonly usage: UsageTracker;
+
+  constructor(runtime?: IAgentRuntime, settings?: Partial<OctavClientConfig>) {
+    super(runtime);
+    this.settings = { ...resolveOctavClientConfig(runtime), ...settings };
+    this.cache = new ResponseCache(
+      this.settings.persistCache ? runtime : undefined
+    );
+    if (this.settings.rateLimitPerMinute > 0) {
+      this.rateLimiter = new TokenBucket(
+        this.settings.rateLimitPerMinute,
+        this.settings.rateLimitPerMinute
+      );
+    }
+    this.usage = new UsageTracker(
+      this.settings.creditWarningThresholds,
+      this.settings.creditReserve
+    );
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<OctavClient> {
+    const client = new OctavClient(runtime);
+    if (!client.settings.apiKey) {
+      logger.warn("[OctavClient] - No Octav API key configured");
+    } else if (client.settings.creditsCheckIntervalMs > 0) {
+      client.monitorCredits();
+    }
+    logger.info(`[OctavClient] - Started with ${client.settings.baseUrl}`);
+    return client;
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const client = runtime.getService<OctavClient>(OctavClient.serviceType);
+    if (client) await client.stop();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.creditsTimer);
+    this.cache.clear();
+    logger.info("[OctavClient] - Stopped");
+  }
+
+  /**
+   * Reads the credits left on the API key. The answer also refreshes the
+   * usage tracker's estimate.
+   */
+  async getCredits(): Promise<number> {
+    const credits = await this.request(
+      "/v1/credits",
+      "/v1/credits",
+      octavCreditsResponseSchema
+    );
+    this.usage.updateCredits(credits);
+    return credits;
+  }
+
+  /**
+   * Fetches the portfolio snapshot of a single address.
+   */
+  async getPortfolio(
+    address: string,
+    options: OctavRequestOptions = {}
+  ): Promise<OctavPortfolioBalance> {
+    const [portfolio] = await this.getPortfolios([address], options);
+    return portfolio;
+  }
+
+  /**
+   * Fetches the portfolio snapshots of several addresses in a single call.
+   */
+  async getPortfolios(
+    addresses: string[],
+    options: OctavRequestOptions = {}
+  ): Promise<OctavPortfolioBalance[]> {
+    const data = await this.cachedRequest(
+      "portfolio",
+      "/v1/portfolio",
+      { addresses: addresses.join(",") },
+      octavPortfolioResponseSchema,
+      options
+    );
+
+    if (data.length === 0) {
+      throw new OctavResponseError(
+        "/v1/portfolio",
+        "(root)",
+        `no portfolio returned for ${addresses.join(", ")}`
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Fetches the portfolio snapshots of several addresses as they were at the
+   * end of a past day.
+   */
+  async getHistoricalPortfolios(
+    addresses: string[],
+    date: Date,
+    options: OctavRequestOptions = {}
+  ): Promise<OctavPortfolioBalance[]> {
+    const data = await this.cachedRequest(
+      "historical",
+      "/v1/historical",
+      { addresses: addresses.join(","), date: formatDate(date) },
+      octavPortfolioResponseSchema,
+      options
+    );
+
+    if (data.length === 0) {
+      throw new OctavResponseError(
+        "/v1/historical",
+        "(root)",
+        `no portfolio returned for ${addresses.join(", ")} on ${formatDate(date)}`
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Fetches one page of transactions, newest first.
+   */
+  async getTransactions(
+    {
+      addresses,
+      limit,
+      offset,
+      startDate,
+      endDate,
+      chains,
+      protocols,
+    }: OctavTransactionsQuery,
+    options: OctavRequestOptions = {}
+  ): Promise<OctavTransaction[]> {
+    return this.cachedRequest(
+      "transactions",
+      "/v1/transactions",
+      {
+        addresses: addresses.join(","),
+        limit,
+        offset,
+        sort: "DESC",
+        hideSpam: true,
+        startDate: startDate && formatDate(startDate),
+        endDate: endDate && formatDate(endDate),
+        networks: chains?.length ? chains.join(",") : undefined,
+        protocols: protocols?.length ? protocols.join(",") : undefined,
+      },
+      octavTransactionsResponseSchema,
+      options
+    );
+  }
+
+  /**
+   * Performs a request through the response cache, keyed by endpoint and
+   * query parameters, with the TTL configured for the endpoint.
+   */
+  private async cachedRequest<T extends z.ZodTypeAny>(
+    endpoint: OctavEndpoint,
+    path: string,
+    params: QueryParams,
+    schema: T,
+    { refresh = false, essential = true, roomId }: OctavRequestOptions
+  ): Promise<z.output<T>> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) query.append(key, String(value));
+    }
+    const pathWithQuery = `${path}?${query.toString()}`;
+
+    return this.cache.getOrFetch(
+      pathWithQuery,
+      this.settings.cacheTtlMs[endpoint],
+      async () => {
+        if (!this.usage.allows(essential)) {
+          throw new OctavInsufficientCreditsError(
+            path,
+            this.usage.estimatedRemainingCredits
+          );
+        }
+        const data = await this.request(path, pathWithQuery, schema);
+        this.usage.record(path, { agentId: this.runtime?.agentId, roomId });
+        return data;
+      },
+      refresh
+    );
+  }
+
+  /**
+   * Reads remaining credits now and then in the background so warnings are
+   * logged and the reserve is enforced without anyone asking.
+   */
+  private monitorCredits(): void {
+    const check = () =>
+      this.getCredits().catch((error) =>
+        logger.warn(
+          `[OctavClient] - Failed to read Octav credits: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+
+    void check();
+    this.creditsTimer = setInterval(
+      check,
+      this.settings.creditsCheckIntervalMs
+    );
+    this.creditsTimer.unref?.();
+  }
+
+  /**
+   * Performs a GET request, retrying transient failures (network errors,
+   * timeouts, 429 and 5xx responses) with exponential backoff. Every call
+   * the client makes is a read, so retrying is always safe.
+   */
+  private async request<T extends z.ZodTypeAny>(
+    path: string,
+    pathWithQuery: string,
+    schema: T
+  ): Promise<z.output<T>> {
+    if (!this.settings.apiKey) throw new OctavMissingApiKeyError();
+
+    const url = `${this.settings.baseUrl}${pathWithQuery}`;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter?.acquire();
+
+      let response: Response;
+      let body: string;
+      try {
+        [response, body] = await this.fetchWithTimeout(path, url);
+      } catch (error) {
+        if (attempt >= this.settings.maxRetries) {
+          throw error instanceof OctavError
+            ? error
+            : new OctavUpstreamUnavailableError(
+                path,
+                error instanceof Error ? error.message : String(error)
+              );
+        }
+        await this.retryAfter(path, attempt, this.backoffDelay(attempt));
+        continue;
+      }
+
+      if (response.ok) {
+        let payload: unknown;
+        try {
+          payload = JSON.parse(body);
+        } catch {
+          throw new OctavResponseError(path, "(root)", "Invalid JSON body");
+        }
+        return parseOctavResponse(schema, payload, path);
+      }
+
+      // Rate-limited responses asking to wait longer than the retry cap fail
+      // right away rather than holding the user's request.
+      const retryAfter =
+        response.status === 429
+          ? parseRetryAfter(response.headers.get("retry-after"))
+          : undefined;
+      if (
+        !RETRYABLE_STATUSES.has(response.status) ||
+        attempt >= this.settings.maxRetries ||
+        (retryAfter ?? 0) > OCTAV_MAX_RETRY_DELAY_MS
+      ) {
+        throw toHttpError(path, response, retryAfter);
+      }
+
+      await this.retryAfter(
+        path,
+        attempt,
+        retryAfter ?? this.backoffDelay(attempt)
+      );
+    }
+  }
+
+  /**
+   * Sends a single request and reads its body, aborting both once the
+   * configured timeout elapses.
+   */
+  private async fetchWithTimeout(
+    path: string,
+    url: string
+  ): Promise<[Response, string]> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.settings.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${this.settings.apiKey}`,
+        },
+        signal: controller.signal,
+      });
+      return [response, await response.text()];
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new OctavUpstreamUnavailableError(
+          path,
+          `timed out after ${this.settings.timeoutMs}ms`
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter, capped so a long outage does not
+   * leave users waiting indefinitely.
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(
+      OCTAV_MAX_RETRY_DELAY_MS,
+      this.settings.retryBaseDelayMs * 2 ** attempt
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private async retryAfter(
+    path: string,
+    attempt: number,
+    delayMs: number
+  ): Promise<void> {
+    logger.warn(
+      `[OctavClient] - Retrying ${path} in ${delayMs}ms (attempt ${attempt + 1} of ${this.settings.maxRetries})`
+    );
+    await sleep(delayMs);
+  }
+}
+
+/**
+ * Maps a failed response to the error telling users what went wrong.
+ */
+const toHttpError = (
+  path: string,
+  response: Response,
+  retryAfterMs?: number
+): OctavError => {
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new OctavUnauthorizedError(path, response.status);
+    case 402:
+      return new OctavInsufficientCreditsError(path);
+    case 429:
+      return new OctavRateLimitError(path, retryAfterMs);
+  }
+
+  return response.status >= 500
+    ? new OctavUpstreamUnavailableError(
+        path,
+        `${response.status} ${response.statusText}`,
+        response.status
+      )
+    : new OctavRequestError(path, response.status, response.statusText);
+};
+
+/**
+ * Reads a `Retry-After` header, given either in seconds or as an HTTP date,
+ * into a delay in milliseconds.
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Returns the runtime's Octav client, failing loudly when the plugin's
+ * service has not been registered.
+ */
+export const getOctavClient = (runtime: IAgentRuntime): OctavClient => {
+  const client = runtime.getService<OctavClient>(OctavClient.serviceType);
+  if (!client) throw new Error("Octav client service not available");
+  return client;
+};
@@ -0,0 +1,55 @@
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Client-side token bucket keeping the plugin under the request rate of the
+ * Octav API plan. Callers wait for a token in the order they asked for one.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param capacity Largest burst of requests allowed at once.
+   * @param refillPerMinute Tokens added back every minute.
+   */
+  constructor(
+    readonly capacity: number,
+    readonly refillPerMinute: number,
+    private readonly now: () => number = Date.now,
+    private readonly wait: (ms: number) => Promise<void> = sleep
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Resolves once a token has been taken for the caller.
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      await this.wait(
+        Math.ceil(((1 - this.tokens) * 60_000) / this.refillPerMinute)
+      );
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) * this.refillPerMinute) / 60_000
+    );
+    this.updatedAt = now;
+  }
+}
@@ -0,0 +1,115 @@
+import { IAgentRuntime, logger } from "@elizaos/core";
+
+/**
+ * Where cached responses outlive the process. The agent runtime implements
+ * it through its own cache tables.
+ */
+export type CacheStore = Pick<IAgentRuntime, "getCache" | "setCache">;
+
+type CacheEntry<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+const CACHE_KEY_PREFIX = "octav:";
+
+/**
+ * In-memory cache of Octav responses with a time-to-live per entry.
+ * Concurrent lookups of the same key share a single upstream request, and
+ * entries are mirrored to a `CacheStore` when one is given so they survive
+ * restarts.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  /** Bumped by `clear()` so requests started before it are not cached. */
+  private generation = 0;
+
+  constructor(
+    private readonly store?: CacheStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Returns the cached value of `key` while it is fresh, otherwise fetches
+   * it. With `refresh`, any cached value is ignored and replaced.
+   */
+  async getOrFetch<T>(
+    key: string,
+    ttlMs: number,
+    fetcher: () => Promise<T>,
+    refresh = false
+  ): Promise<T> {
+    const generation = this.generation;
+    const isCurrent = () => generation === this.generation;
+
+    if (!refresh && ttlMs > 0) {
+      const entry = await this.read<T>(key);
+      if (entry) return entry.value;
+    }
+
+    const pending = isCurrent() ? this.inFlight.get(key) : undefined;
+    if (pending) return pending as Promise<T>;
+
+    const request: Promise<T> = fetcher()
+      .then(async (value) => {
+        if (ttlMs > 0 && isCurrent()) {
+          await this.write(key, { value, expiresAt: this.now() + ttlMs });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+      });
+
+    if (isCurrent()) this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drops every entry. Requests still in flight resolve for their callers
+   * but are neither shared with later lookups nor cached.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+    this.generation++;
+  }
+
+  private async read<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    let entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (!entry && this.store) {
+      try {
+        entry = await this.store.getCache<CacheEntry<T>>(
+          `${CACHE_KEY_PREFIX}${key}`
+        );
+        if (entry) this.entries.set(key, entry);
+      } catch (error) {
+        logger.warn(
+          `[ResponseCache] - Failed to read ${key}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private async write<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry);
+    if (!this.store) return;
+
+    try {
+      await this.store.setCache(`${CACHE_KEY_PREFIX}${key}`, entry);
+    } catch (error) {
+      logger.warn(
+        `[ResponseCache] - Failed to persist ${key}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
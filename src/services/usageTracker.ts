@@ -0,0 +1,117 @@
+import { logger } from "@elizaos/core";
+
+/**
+ * Who a request was made for, so spend can be attributed.
+ */
+export type UsageScope = {
+  agentId?: string;
+  roomId?: string;
+};
+
+export type UsageReport = {
+  totalRequests: number;
+  byEndpoint: Record<string, number>;
+  byAgent: Record<string, number>;
+  byRoom: Record<string, number>;
+  /** Credits left according to Octav's last answer, if it was asked. */
+  remainingCredits?: number;
+  /** `remainingCredits` minus the requests made since it was read. */
+  estimatedRemainingCredits?: number;
+  checkedAt?: number;
+};
+
+const increment = (counts: Record<string, number>, key: string | undefined) => {
+  if (key) counts[key] = (counts[key] ?? 0) + 1;
+};
+
+/**
+ * Counts the billable requests the plugin makes and keeps an estimate of
+ * the credits left, warning as it crosses each threshold and holding back
+ * non-essential requests once it falls to the reserve.
+ */
+export class UsageTracker {
+  private totalRequests = 0;
+  private readonly byEndpoint: Record<string, number> = {};
+  private readonly byAgent: Record<string, number> = {};
+  private readonly byRoom: Record<string, number> = {};
+  private remainingCredits?: number;
+  private requestsSinceCheck = 0;
+  private checkedAt?: number;
+  private warnedThreshold?: number;
+
+  /**
+   * @param warningThresholds Credit levels at which a warning is logged.
+   * @param reserve Credits kept for requests users explicitly ask for.
+   */
+  constructor(
+    private readonly warningThresholds: number[] = [],
+    private readonly reserve = 0,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get estimatedRemainingCredits(): number | undefined {
+    return this.remainingCredits === undefined
+      ? undefined
+      : Math.max(0, this.remainingCredits - this.requestsSinceCheck);
+  }
+
+  record(endpoint: string, { agentId, roomId }: UsageScope = {}): void {
+    this.totalRequests++;
+    this.requestsSinceCheck++;
+    increment(this.byEndpoint, endpoint);
+    increment(this.byAgent, agentId);
+    increment(this.byRoom, roomId);
+    this.checkThresholds();
+  }
+
+  updateCredits(remainingCredits: number): void {
+    this.remainingCredits = remainingCredits;
+    this.requestsSinceCheck = 0;
+    this.checkedAt = this.now();
+    this.checkThresholds();
+  }
+
+  /**
+   * Whether a request may be spent. Essential requests, made on a user's
+   * behalf, are always allowed; the others stop at the reserve.
+   */
+  allows(essential = true): boolean {
+    const remaining = this.estimatedRemainingCredits;
+    return essential || remaining === undefined || remaining > this.reserve;
+  }
+
+  report(): UsageReport {
+    return {
+      totalRequests: this.totalRequests,
+      byEndpoint: { ...this.byEndpoint },
+      byAgent: { ...this.byAgent },
+      byRoom: { ...this.byRoom },
+      remainingCredits: this.remainingCredits,
+      estimatedRemainingCredits: this.estimatedRemainingCredits,
+      checkedAt: this.checkedAt,
+    };
+  }
+
+  private checkThresholds(): void {
+    const remaining = this.estimatedRemainingCredits;
+    if (remaining === undefined) return;
+
+    const crossed = this.warningThresholds
+      .filter((threshold) => remaining <= threshold)
+      .sort((a, b) => a - b)[0];
+
+    if (crossed === undefined) {
+      // Credits were topped up; warn again on the next crossing.
+      this.warnedThreshold = undefined;
+      return;
+    }
+    if (this.warnedThreshold !== undefined && crossed >= this.warnedThreshold) {
+      return;
+    }
+
+    this.warnedThreshold = crossed;
+    logger.warn(
+      `[OctavUsage] - Only ${remaining} Octav credits left (threshold: ${crossed})`
+    );
+  }
+}
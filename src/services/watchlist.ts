@@ -0,0 +1,306 @@
+import { IAgentRuntime, logger, Service } from "@elizaos/core";
+import {
+  AddressReference,
+  OctavPortfolioBalance,
+  PortfolioSnapshot,
+  WatchedAddress,
+} from "../types";
+import { addressKey } from "../utils/addressParsing";
+import { readNumberSetting } from "../utils/settings";
+import { PortfolioAlertService } from "./alerts";
+import { getOctavClient } from "./octavClient";
+
+export const OCTAV_WATCHLIST_INTERVAL_MS = 60 * 60 * 1000;
+export const OCTAV_WATCHLIST_MAX_SNAPSHOTS = 168;
+
+/** Addresses fetched per Octav request when snapshotting the watchlist. */
+const SNAPSHOT_BATCH_SIZE = 10;
+
+const WATCHLIST_CACHE_KEY = "octav:watchlist";
+const snapshotsCacheKey = (address: string) =>
+  `octav:watchlist:snapshots:${addressKey(address)}`;
+
+export type WatchlistConfig = {
+  intervalMs: number;
+  maxSnapshots: number;
+};
+
+export const resolveWatchlistConfig = (
+  runtime?: IAgentRuntime
+): WatchlistConfig => ({
+  intervalMs: readNumberSetting(
+    runtime,
+    "OCTAV_WATCHLIST_INTERVAL_MS",
+    OCTAV_WATCHLIST_INTERVAL_MS
+  ),
+  maxSnapshots: Math.max(
+    1,
+    readNumberSetting(
+      runtime,
+      "OCTAV_WATCHLIST_MAX_SNAPSHOTS",
+      OCTAV_WATCHLIST_MAX_SNAPSHOTS
+    )
+  ),
+});
+
+/**
+ * Remembers the addresses users asked to watch and snapshots their
+ * portfolios on a schedule. The watchlist and the latest snapshots of each
+ * address are kept in the runtime's cache, so they survive restarts.
+ */
+export class WatchlistService extends Service {
+  static serviceType = "octav-watchlist";
+
+  capabilityDescription =
+    "Watches addresses and keeps periodic snapshots of their portfolios";
+
+  readonly settings: WatchlistConfig;
+
+  private watched = new Map<string, WatchedAddress>();
+  private timer?: ReturnType<typeof setInterval>;
+  private snapshotting?: Promise<PortfolioSnapshot[]>;
+  // Scheduled snapshots and user requests both change the watchlist and
+  // its snapshots, so every change waits for the previous one.
+  private changes: Promise<unknown> = Promise.resolve();
+
+  constructor(runtime?: IAgentRuntime, settings?: Partial<WatchlistConfig>) {
+    super(runtime);
+    this.settings = { ...resolveWatchlistConfig(runtime), ...settings };
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<WatchlistService> {
+    const service = new WatchlistService(runtime);
+    await service.load();
+
+    if (service.settings.intervalMs > 0) {
+      service.timer = setInterval(() => {
+        service
+          .snapshot()
+          .catch((error) =>
+            logger.warn(
+              `[Watchlist] - Snapshot failed: ${error instanceof Error ? error.message : String(error)}`
+            )
+          );
+      }, service.settings.intervalMs);
+      service.timer.unref?.();
+    }
+
+    logger.info(
+      `[Watchlist] - Started with ${service.watched.size} watched addresses`
+    );
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<WatchlistService>(
+      WatchlistService.serviceType
+    );
+    if (service) await service.stop();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    logger.info("[Watchlist] - Stopped");
+  }
+
+  list(): WatchedAddress[] {
+    return [...this.watched.values()].sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  isWatched(address: string): boolean {
+    return this.watched.has(addressKey(address));
+  }
+
+  /**
+   * Adds addresses to the watchlist, returning the ones that were not
+   * already on it.
+   */
+  watch(
+    references: AddressReference[],
+    { roomId, entityId }: { roomId?: string; entityId?: string } = {}
+  ): Promise<WatchedAddress[]> {
+    return this.change(async () => {
+      const added = references
+        .filter((reference) => !this.isWatched(reference.address))
+        .map((reference) => ({
+          ...reference,
+          roomId,
+          entityId,
+          addedAt: Date.now(),
+        }));
+
+      for (const entry of added) {
+        this.watched.set(addressKey(entry.address), entry);
+      }
+      if (added.length > 0) await this.save();
+
+      return added;
+    });
+  }
+
+  /**
+   * Removes addresses and their snapshots, returning the ones that were on
+   * the watchlist.
+   */
+  unwatch(addresses: string[]): Promise<WatchedAddress[]> {
+    return this.change(async () => {
+      const removed = addresses
+        .map((address) => this.watched.get(addressKey(address)))
+        .filter((entry): entry is WatchedAddress => entry !== undefined);
+
+      for (const entry of removed) {
+        this.watched.delete(addressKey(entry.address));
+        await this.runtime?.deleteCache(snapshotsCacheKey(entry.address));
+      }
+      if (removed.length > 0) await this.save();
+
+      return removed;
+    });
+  }
+
+  /**
+   * Snapshots of an address, oldest first.
+   */
+  async getSnapshots(address: string): Promise<PortfolioSnapshot[]> {
+    return (
+      (await this.runtime?.getCache<PortfolioSnapshot[]>(
+        snapshotsCacheKey(address)
+      )) ?? []
+    );
+  }
+
+  /**
+   * Fetches the current portfolio of every watched address and stores it.
+   * Overlapping calls share the snapshot already in progress.
+   */
+  snapshot(): Promise<PortfolioSnapshot[]> {
+    if (!this.snapshotting) {
+      this.snapshotting = this.takeSnapshots().finally(() => {
+        this.snapshotting = undefined;
+      });
+    }
+    return this.snapshotting;
+  }
+
+  /**
+   * Takes the first snapshot of addresses a user just asked to watch. The
+   * user is waiting for it, so the requests may use the credit reserve.
+   */
+  snapshotAddresses(addresses: string[]): Promise<PortfolioSnapshot[]> {
+    return this.takeSnapshots(
+      addresses.filter((address) => this.isWatched(address)),
+      true
+    );
+  }
+
+  private async takeSnapshots(
+    addresses = this.list().map((entry) => entry.address),
+    essential = false
+  ): Promise<PortfolioSnapshot[]> {
+    const snapshots: PortfolioSnapshot[] = [];
+
+    for (let i = 0; i < addresses.length; i += SNAPSHOT_BATCH_SIZE) {
+      const batch = addresses.slice(i, i + SNAPSHOT_BATCH_SIZE);
+      let portfolios: OctavPortfolioBalance[];
+      try {
+        portfolios = await getOctavClient(this.runtime).getPortfolios(batch, {
+          refresh: true,
+          essential,
+        });
+      } catch (error) {
+        // One failed batch should not cost the rest of the watchlist its
+        // snapshot.
+        logger.warn(
+          `[Watchlist] - Failed to snapshot ${batch.length} addresses: ${error instanceof Error ? error.message : String(error)}`
+        );
+        continue;
+      }
+      const timestamp = Date.now();
+
+      for (const portfolio of portfolios) {
+        const stored = await this.store(portfolio, timestamp);
+        if (!stored) continue;
+
+        const { snapshot, previous } = stored;
+        snapshots.push(snapshot);
+
+        if (previous) {
+          await this.runtime
+            ?.getService<PortfolioAlertService>(
+              PortfolioAlertService.serviceType
+            )
+            ?.evaluate(previous, snapshot);
+        }
+      }
+    }
+
+    logger.info(`[Watchlist] - Stored ${snapshots.length} snapshots`);
+    return snapshots;
+  }
+
+  /**
+   * Appends a snapshot to the history of a watched address, returning it
+   * with the one it follows, if any. The first snapshot of an address sets
+   * its baseline. Addresses unwatched meanwhile are skipped.
+   */
+  private store(
+    portfolio: OctavPortfolioBalance,
+    timestamp: number
+  ): Promise<
+    { snapshot: PortfolioSnapshot; previous?: PortfolioSnapshot } | undefined
+  > {
+    return this.change(async () => {
+      const entry = this.watched.get(addressKey(portfolio.address));
+      if (!entry) return undefined;
+
+      const snapshot = { address: entry.address, timestamp, portfolio };
+      const snapshots = await this.getSnapshots(entry.address);
+      await this.runtime?.setCache(
+        snapshotsCacheKey(entry.address),
+        [...snapshots, snapshot].slice(-this.settings.maxSnapshots)
+      );
+
+      if (entry.baselineNetworth === undefined) {
+        entry.baselineNetworth = Number(
+          (snapshots[0] ?? snapshot).portfolio.networth
+        );
+        await this.save();
+      }
+
+      return { snapshot, previous: snapshots.at(-1) };
+    });
+  }
+
+  private change<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.changes.then(task);
+    this.changes = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<void> {
+    const entries =
+      (await this.runtime?.getCache<WatchedAddress[]>(WATCHLIST_CACHE_KEY)) ??
+      [];
+    this.watched = new Map(
+      entries.map((entry) => [addressKey(entry.address), entry])
+    );
+  }
+
+  private async save(): Promise<void> {
+    await this.runtime?.setCache(WATCHLIST_CACHE_KEY, this.list());
+  }
+}
+
+/**
+ * Returns the runtime's watchlist, failing loudly when the plugin's service
+ * has not been registered.
+ */
+export const getWatchlistService = (
+  runtime: IAgentRuntime
+): WatchlistService => {
+  const service = runtime.getService<WatchlistService>(
+    WatchlistService.serviceType
+  );
+  if (!service) throw new Error("Octav watchlist service not available");
+  return service;
+};
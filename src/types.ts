@@ -1,31 +1,121 @@
-export type OctavPortfolioBalance = {
+import { z } from "zod";
+import {
+  assetSchema,
+  chainSchema,
+  octavPortfolioBalanceSchema,
+  octavTransactionSchema,
+  positionGroupSchema,
+  positionSchema,
+  protocolChainSchema,
+  protocolSchema,
+  transactionAssetSchema,
+} from "./schemas";
+import { ChainFamily } from "./utils/addressParsing";
+
+export type OctavPortfolioBalance = z.infer<typeof octavPortfolioBalanceSchema>;
+
+export type Chain = z.infer<typeof chainSchema>;
+
+export type Protocol = z.infer<typeof protocolSchema>;
+
+export type ProtocolChain = z.infer<typeof protocolChainSchema>;
+
+export type PositionGroup = z.infer<typeof positionGroupSchema>;
+
+export type Position = z.infer<typeof positionSchema>;
+
+export type Asset = z.infer<typeof assetSchema>;
+
+/**
+ * A single token position flattened out of the protocol breakdown.
+ */
+export type TokenHolding = {
+  symbol: string;
+  name?: string;
+  balance: number;
+  price: number;
+  value: number;
+  contract?: string;
+  chain: string;
+  chainName: string;
+  protocols: string[];
+};
+
+export type AssetByProtocols = {
+  [protocolKey: string]: Protocol;
+};
+
+/**
+ * An address a message refers to, either written out or resolved from a
+ * name such as an ENS name.
+ */
+export type AddressReference = {
   address: string;
-  networth: string;
-  assetByProtocols: AssetByProtocols;
-  chains: {
-    [chainKey: string]: Chain;
-  };
+  family: ChainFamily;
+  name?: string;
 };
 
-type Chain = {
+export type OctavTransaction = z.infer<typeof octavTransactionSchema>;
+
+export type TransactionAsset = z.infer<typeof transactionAssetSchema>;
+
+export type OctavTransactionsQuery = {
+  addresses: string[];
+  limit: number;
+  offset: number;
+  startDate?: Date;
+  endDate?: Date;
+  chains?: string[];
+  protocols?: string[];
+};
+
+/**
+ * An address on the watchlist, with the room it was added from so updates
+ * can be sent back there.
+ */
+export type WatchedAddress = AddressReference & {
+  roomId?: string;
+  entityId?: string;
+  addedAt: number;
+  /**
+   * Net worth of the first snapshot, which changes are reported against.
+   * Kept here as old snapshots are trimmed.
+   */
+  baselineNetworth?: number;
+};
+
+/**
+ * An address a user saved under a name, e.g. "treasury", to refer to it in
+ * later messages.
+ */
+export type SavedAddress = AddressReference & {
   name: string;
-  key: string;
-  value: string;
-  totalCostBasis: string;
-  totalClosedPnl: string;
-  totalOpenPnl: string;
-};
-
-type AssetByProtocols = {
-  [protocolKey: string]: {
-    name: string;
-    key: string;
-    value: string;
-    totalCostBasis: string;
-    totalClosedPnl: string;
-    totalOpenPnl: string;
-    chains: {
-      [chainKey: string]: Chain;
-    };
-  };
+  savedAt: number;
+};
+
+export type PortfolioSnapshot = {
+  address: string;
+  timestamp: number;
+  portfolio: OctavPortfolioBalance;
+};
+
+export type AlertCondition =
+  | { type: "networth_drop"; percent: number }
+  | { type: "protocol_exposure"; protocol?: string; usd: number }
+  | { type: "new_chain_or_protocol" }
+  | { type: "position_removed" };
+
+/**
+ * A condition checked against every new snapshot of an address. Triggered
+ * alerts are sent back to the room the rule was created from.
+ */
+export type AlertRule = AlertCondition & {
+  id: string;
+  address: string;
+  name?: string;
+  roomId?: string;
+  source?: string;
+  createdAt: number;
+  /** Net worth of the address when the rule was created, for net worth drops. */
+  baselineNetworth?: number;
 };
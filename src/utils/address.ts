@@ -0,0 +1,172 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { OctavInvalidAddressError } from "../errors";
+import { AddressBookService, AddressContext } from "../services/addressBook";
+import { NameResolutionService } from "../services/nameResolution";
+import { AddressReference } from "../types";
+import { addressKey, InvalidAddress, parseAddresses } from "./addressParsing";
+
+/**
+ * Address key (see `addressKey`) to the name it was resolved from, used by
+ * formatters to show names alongside addresses.
+ */
+export type AddressLabels = Record<string, string>;
+
+/**
+ * Extracts the addresses of a message, both written out and referred to by
+ * name (ENS, Basenames, aliases), in order of appearance. Names are only
+ * resolved when the runtime has the name resolution service. Given the
+ * sender and room, names the user saved and references such as "my wallet"
+ * or "that address" are resolved through the address book too.
+ */
+export const extractAddressReferences = async (
+  runtime: IAgentRuntime,
+  text: string | undefined,
+  context?: AddressContext
+): Promise<{
+  references: AddressReference[];
+  unresolved: string[];
+  invalid: InvalidAddress[];
+}> => {
+  const content = text ?? "";
+  const { addresses, invalid } = parseAddresses(content);
+
+  const service = runtime.getService<NameResolutionService>(
+    NameResolutionService.serviceType
+  );
+  const names = service
+    ? await service.resolveNames(content)
+    : { resolved: [], unresolved: [], invalid: [] };
+
+  const addressBook = runtime.getService<AddressBookService>(
+    AddressBookService.serviceType
+  );
+  const remembered =
+    addressBook && context
+      ? await addressBook.findReferences(content, context)
+      : [];
+
+  // A name the user saved wins over an alias or ENS name spelled the same.
+  const savedNames = new Set(remembered.map((reference) => reference.name));
+  const resolved = names.resolved.filter(
+    (reference) => !savedNames.has(reference.name)
+  );
+  const unresolved = names.unresolved.filter((name) => !savedNames.has(name));
+  const invalidNames = names.invalid
+    .filter(({ name }) => !savedNames.has(name))
+    .map(({ address, name, index }) => ({
+      address,
+      index,
+      reason: `(resolved from ${name}) is not a valid EVM or Solana address`,
+    }));
+
+  const seen = new Set<string>();
+  const references = [...addresses, ...remembered, ...resolved]
+    .sort((a, b) => a.index - b.index)
+    .filter(({ address }) => {
+      const key = addressKey(address);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ index: _index, ...reference }) => reference);
+
+  return {
+    references,
+    unresolved,
+    invalid: [...invalid, ...invalidNames].sort((a, b) => a.index - b.index),
+  };
+};
+
+/**
+ * Whether a message writes out an address, names one a resolver knows or
+ * refers to a saved one. Nothing is resolved, so it is cheap enough to run
+ * before asking the model about a message.
+ */
+export const mentionsAddress = async (
+  runtime: IAgentRuntime,
+  text: string | undefined,
+  context?: AddressContext
+): Promise<boolean> => {
+  const content = text ?? "";
+  const { addresses, invalid } = parseAddresses(content);
+  if (addresses.length > 0 || invalid.length > 0) return true;
+
+  const names = runtime
+    .getService<NameResolutionService>(NameResolutionService.serviceType)
+    ?.findNames(content);
+  if (names?.length) return true;
+
+  const addressBook = runtime.getService<AddressBookService>(
+    AddressBookService.serviceType
+  );
+  return addressBook && context
+    ? (await addressBook.findReferences(content, context)).length > 0
+    : false;
+};
+
+/**
+ * Same as `extractAddressReferences`, but fails with an
+ * `OctavInvalidAddressError` when the message holds no usable address.
+ * The addresses found become the ones "that address" refers to in the room.
+ */
+export const requireAddressReferences = async (
+  runtime: IAgentRuntime,
+  text: string | undefined,
+  context?: AddressContext
+): Promise<AddressReference[]> => {
+  const { references, unresolved, invalid } = await extractAddressReferences(
+    runtime,
+    text,
+    context
+  );
+
+  if (references.length === 0) {
+    if (invalid.length > 0) {
+      throw new OctavInvalidAddressError(
+        `Address ${invalid.map(({ address, reason }) => `${address} ${reason}`).join(", ")}`,
+        invalid.map(({ address }) => address)
+      );
+    }
+    throw unresolved.length > 0
+      ? new OctavInvalidAddressError(
+          `Could not resolve ${unresolved.join(", ")} to an address`,
+          unresolved
+        )
+      : new OctavInvalidAddressError("Valid address not found in message");
+  }
+
+  if (context?.roomId) {
+    await runtime
+      .getService<AddressBookService>(AddressBookService.serviceType)
+      ?.remember(context.roomId, references);
+  }
+
+  return references;
+};
+
+export const toAddressLabels = (
+  references: AddressReference[]
+): AddressLabels =>
+  Object.fromEntries(
+    references
+      .filter((reference) => reference.name)
+      .map((reference) => [addressKey(reference.address), reference.name!])
+  );
+
+/**
+ * Formats an address with the name it was resolved from, if any, e.g.
+ * `vitalik.eth (0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045)`.
+ */
+export const formatAddress = (
+  address: string,
+  labels: AddressLabels = {}
+): string => {
+  const name = labels[addressKey(address)];
+  return name ? `${name} (${address})` : address;
+};
+
+export const formatAddressReference = ({
+  address,
+  name,
+}: Pick<AddressReference, "address" | "name">): string =>
+  name ? `${name} (${address})` : address;
@@ -0,0 +1,151 @@
+import { getAddress } from "viem";
+
+export type ChainFamily = "evm" | "solana";
+
+/**
+ * An address found in a message, tagged with its chain family and its
+ * position in the text.
+ */
+export type ParsedAddress = {
+  address: string;
+  family: ChainFamily;
+  index: number;
+};
+
+/**
+ * An address that failed validation. Addresses a name resolved to have no
+ * family when they match no supported format.
+ */
+export type InvalidAddress = Omit<ParsedAddress, "family"> & {
+  family?: ChainFamily;
+  reason: string;
+};
+
+type AddressFormat = {
+  family: ChainFamily;
+  pattern: RegExp;
+  /**
+   * Whether a match is an address at all. Those that are not are ignored
+   * instead of being reported as invalid.
+   */
+  accepts?(candidate: string): boolean;
+  /** Returns why the candidate is not a valid address, if it is not. */
+  validate?(candidate: string): string | undefined;
+};
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Decodes a base58 string, returning `undefined` on characters outside the
+ * Bitcoin alphabet that Solana also uses.
+ */
+const decodeBase58 = (value: string): Uint8Array | undefined => {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry === -1) return undefined;
+
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  for (const char of value) {
+    if (char !== "1") break;
+    bytes.push(0);
+  }
+
+  return Uint8Array.from(bytes.reverse());
+};
+
+/**
+ * Address formats Octav can fetch data for. EVM addresses are matched first
+ * so their hex body is never mistaken for base58.
+ */
+const ADDRESS_FORMATS: AddressFormat[] = [
+  {
+    family: "evm",
+    pattern: /\b0x[a-fA-F0-9]{40}\b/g,
+    validate: (candidate) => {
+      const body = candidate.slice(2);
+      // All-lowercase and all-uppercase addresses carry no checksum.
+      if (body === body.toLowerCase() || body === body.toUpperCase()) return;
+      return getAddress(candidate) === candidate
+        ? undefined
+        : "has an invalid EIP-55 checksum";
+    },
+  },
+  {
+    family: "solana",
+    pattern: /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g,
+    // Long words of the base58 alphabet are common in prose and URLs, so
+    // only those decoding to a 32-byte public key are taken as addresses.
+    accepts: (candidate) => decodeBase58(candidate)?.length === 32,
+  },
+];
+
+/**
+ * Returns the chain family of a single address, or `undefined` when it does
+ * not look like any supported format.
+ */
+export const detectAddressFamily = (value: string): ChainFamily | undefined =>
+  ADDRESS_FORMATS.find(
+    (format) =>
+      new RegExp(`^${format.pattern.source}$`).test(value) &&
+      (format.accepts?.(value) ?? true) &&
+      !format.validate?.(value)
+  )?.family;
+
+/**
+ * Key under which an address is compared: EVM addresses are
+ * case-insensitive, base58 ones are not.
+ */
+export const addressKey = (address: string): string =>
+  address.startsWith("0x") ? address.toLowerCase() : address;
+
+/**
+ * Finds every distinct address of every supported format in a message, in
+ * order of appearance, separating well-formed ones from those that fail
+ * validation (e.g. a mistyped EIP-55 checksum).
+ */
+export const parseAddresses = (
+  text: string | undefined
+): { addresses: ParsedAddress[]; invalid: InvalidAddress[] } => {
+  const content = text ?? "";
+  const addresses: ParsedAddress[] = [];
+  const invalid: InvalidAddress[] = [];
+  const seen = new Set<string>();
+
+  const candidates = ADDRESS_FORMATS.flatMap((format) =>
+    [...content.matchAll(format.pattern)].map((match) => ({
+      format,
+      address: match[0],
+      index: match.index ?? 0,
+    }))
+  ).sort((a, b) => a.index - b.index);
+
+  for (const { format, address, index } of candidates) {
+    if (format.accepts && !format.accepts(address)) continue;
+
+    const key = addressKey(address);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const reason = format.validate?.(address);
+    if (reason) {
+      invalid.push({ address, family: format.family, index, reason });
+    } else {
+      addresses.push({ address, family: format.family, index });
+    }
+  }
+
+  return { addresses, invalid };
+};
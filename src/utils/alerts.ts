@@ -0,0 +1,192 @@
+import { AlertCondition, AlertRule, OctavPortfolioBalance } from "../types";
+import {
+  DisplayCurrency,
+  formatMoney,
+  formatSignedMoney,
+  USD,
+} from "./currency";
+import { formatPercent, formatUsd, NumberFormatOptions } from "./format";
+import { percentChange } from "./performance";
+
+const AMOUNT = String.raw`\$?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|m)?\b`;
+const ABOVE = String.raw`(?:exceeds?|goes over|is over|over|above|more than|>)`;
+
+const NETWORTH_DROP_REGEX =
+  /\b(?:drops?|falls?|declines?|decreases?|down|loses?)\s+(?:by\s+)?(?:more than\s+|over\s+)?(\d+(?:\.\d+)?)\s*%/i;
+const EXPOSURE_REGEXES = [
+  new RegExp(
+    String.raw`\bexposure\s+(?:to|in|on)\s+([\w.-]+)[^$\d]*?${ABOVE}\s*${AMOUNT}`,
+    "i"
+  ),
+  new RegExp(
+    String.raw`\b([\w.-]+)\s+exposure[^$\d]*?${ABOVE}\s*${AMOUNT}`,
+    "i"
+  ),
+  new RegExp(
+    String.raw`\b(?:more than|over|above)\s*${AMOUNT}\s+(?:in|on)\s+([\w.-]+)`,
+    "i"
+  ),
+];
+const NEW_CHAIN_OR_PROTOCOL_REGEX = /\bnew\s+(?:chain|protocol|network)s?\b/i;
+const POSITION_REMOVED_REGEX =
+  /\bpositions?\b.*\b(?:disappears?|closed?|removed?|liquidated|gone|vanish(?:es)?)\b/i;
+
+/** Words that stand for "any protocol" rather than a protocol name. */
+const ANY_PROTOCOL = new Set(["protocol", "any", "a", "single", "one"]);
+
+const parseAmount = (amount: string, unit: string | undefined): number =>
+  Number(amount.replace(/,/g, "")) *
+  ({ k: 1_000, m: 1_000_000 }[(unit?.toLowerCase() ?? "") as "k" | "m"] ?? 1);
+
+/**
+ * Reads the alert conditions a message asks for, e.g. "drops by more than
+ * 10%", "Aave exposure exceeds $50k", "a new protocol appears" or "a
+ * position disappears".
+ */
+export const parseAlertConditions = (text: string): AlertCondition[] => {
+  const conditions: AlertCondition[] = [];
+
+  const dropMatch = text.match(NETWORTH_DROP_REGEX);
+  if (dropMatch) {
+    conditions.push({ type: "networth_drop", percent: Number(dropMatch[1]) });
+  }
+
+  for (const [i, regex] of EXPOSURE_REGEXES.entries()) {
+    const match = text.match(regex);
+    if (!match) continue;
+
+    // The last pattern names the amount before the protocol.
+    const [protocol, amount, unit] =
+      i === 2 ? [match[3], match[1], match[2]] : [match[1], match[2], match[3]];
+    conditions.push({
+      type: "protocol_exposure",
+      protocol: ANY_PROTOCOL.has(protocol.toLowerCase())
+        ? undefined
+        : protocol.toLowerCase(),
+      usd: parseAmount(amount, unit),
+    });
+    break;
+  }
+
+  if (NEW_CHAIN_OR_PROTOCOL_REGEX.test(text)) {
+    conditions.push({ type: "new_chain_or_protocol" });
+  }
+  if (POSITION_REMOVED_REGEX.test(text)) {
+    conditions.push({ type: "position_removed" });
+  }
+
+  return conditions;
+};
+
+export const describeAlertCondition = (
+  condition: AlertCondition,
+  numberFormat: NumberFormatOptions = {}
+): string => {
+  switch (condition.type) {
+    case "networth_drop":
+      return `Net worth drops by more than ${condition.percent}% from when the alert was set`;
+    case "protocol_exposure":
+      return `${condition.protocol ?? "Any protocol"} exposure exceeds ${formatUsd(condition.usd, numberFormat)}`;
+    case "new_chain_or_protocol":
+      return "A new chain or protocol appears";
+    case "position_removed":
+      return "A position disappears";
+  }
+};
+
+const matchesProtocol = (
+  key: string,
+  name: string,
+  protocol: string | undefined
+) =>
+  protocol === undefined ||
+  key.toLowerCase() === protocol ||
+  name.toLowerCase() === protocol;
+
+/**
+ * Positions of a portfolio keyed by protocol, chain and position type, with
+ * a readable label.
+ */
+const listPositions = (
+  portfolio: OctavPortfolioBalance
+): Map<string, string> => {
+  const positions = new Map<string, string>();
+
+  for (const [protocolKey, protocol] of Object.entries(
+    portfolio.assetByProtocols
+  )) {
+    for (const [chainKey, chain] of Object.entries(protocol.chains)) {
+      for (const [groupKey, group] of Object.entries(chain.protocolPositions)) {
+        positions.set(
+          `${protocolKey}/${chainKey}/${groupKey}`,
+          `${protocol.name} ${group.name} on ${chain.name}`
+        );
+      }
+    }
+  }
+
+  return positions;
+};
+
+/**
+ * Checks a rule against two consecutive snapshots of its address, returning
+ * one line per finding, or none when the rule did not trigger. Thresholds
+ * only trigger when crossed, so a rule does not fire on every snapshot. Net
+ * worth drops are measured from the rule's baseline, so a slow decline
+ * triggers too; without one, from the previous snapshot.
+ */
+export const evaluateAlertRule = (
+  rule: AlertRule,
+  previous: OctavPortfolioBalance,
+  current: OctavPortfolioBalance,
+  currency: DisplayCurrency = USD,
+  numberFormat: NumberFormatOptions = {}
+): string[] => {
+  switch (rule.type) {
+    case "networth_drop": {
+      const baseline = rule.baselineNetworth ?? Number(previous.networth);
+      const after = Number(current.networth);
+      const previousChange = percentChange(baseline, Number(previous.networth));
+      const change = percentChange(baseline, after);
+      return change !== null &&
+        change < -rule.percent &&
+        !(previousChange !== null && previousChange < -rule.percent)
+        ? [
+            `Net worth fell from ${formatMoney(baseline, currency, numberFormat)} to ${formatMoney(after, currency, numberFormat)} (${formatSignedMoney(after - baseline, currency, numberFormat)}, ${formatPercent(change, numberFormat)})`,
+          ]
+        : [];
+    }
+
+    case "protocol_exposure":
+      return Object.entries(current.assetByProtocols)
+        .filter(([key, protocol]) =>
+          matchesProtocol(key, protocol.name, rule.protocol)
+        )
+        .filter(
+          ([key, protocol]) =>
+            Number(protocol.value) > rule.usd &&
+            Number(previous.assetByProtocols[key]?.value ?? 0) <= rule.usd
+        )
+        .map(
+          ([, protocol]) =>
+            `${protocol.name} exposure is ${formatMoney(Number(protocol.value), currency, numberFormat)}, above ${formatMoney(rule.usd, currency, numberFormat)}`
+        );
+
+    case "new_chain_or_protocol":
+      return [
+        ...Object.entries(current.chains)
+          .filter(([key]) => !(key in previous.chains))
+          .map(([, chain]) => `New chain: ${chain.name}`),
+        ...Object.entries(current.assetByProtocols)
+          .filter(([key]) => !(key in previous.assetByProtocols))
+          .map(([, protocol]) => `New protocol: ${protocol.name}`),
+      ];
+
+    case "position_removed": {
+      const positions = listPositions(current);
+      return [...listPositions(previous)]
+        .filter(([key]) => !positions.has(key))
+        .map(([, label]) => `Position closed: ${label}`);
+    }
+  }
+};
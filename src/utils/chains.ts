@@ -0,0 +1,101 @@
+export type OctavChain = {
+  key: string;
+  name: string;
+  aliases: string[];
+  /**
+   * Whether the name is also an ordinary English word ("base", "scroll"),
+   * only read as the chain in context such as "on base" or "base chain".
+   */
+  commonWord?: boolean;
+};
+
+/**
+ * Chains supported by Octav, keyed the same way as the `chains` map of
+ * portfolio responses and the `networks` filter of the transactions endpoint.
+ */
+export const OCTAV_CHAINS: OctavChain[] = [
+  { key: "ethereum", name: "Ethereum", aliases: ["mainnet"] },
+  { key: "arbitrum", name: "Arbitrum", aliases: [] },
+  { key: "optimism", name: "Optimism", aliases: [] },
+  { key: "base", name: "Base", aliases: [], commonWord: true },
+  { key: "polygon", name: "Polygon", aliases: [] },
+  { key: "binance", name: "BNB Chain", aliases: ["bsc"] },
+  { key: "avalanche", name: "Avalanche", aliases: [] },
+  { key: "gnosis", name: "Gnosis", aliases: ["xdai"] },
+  { key: "linea", name: "Linea", aliases: [], commonWord: true },
+  { key: "scroll", name: "Scroll", aliases: [], commonWord: true },
+  { key: "blast", name: "Blast", aliases: [], commonWord: true },
+  { key: "mantle", name: "Mantle", aliases: [], commonWord: true },
+  { key: "zksync", name: "zkSync Era", aliases: [] },
+  { key: "fantom", name: "Fantom", aliases: [] },
+  { key: "sonic", name: "Sonic", aliases: [], commonWord: true },
+  { key: "berachain", name: "Berachain", aliases: [] },
+  { key: "solana", name: "Solana", aliases: [] },
+];
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Whether a message names a chain as a whole word. Dots between letters are
+ * part of the word, so "jesse.base.eth" does not name Base. Common words
+ * only count with chain context: "on base" or "base chain".
+ */
+const mentions = (
+  content: string,
+  name: string,
+  commonWord = false
+): boolean => {
+  const word = `(?<!\\w\\.?)${escapeRegExp(name.toLowerCase())}(?!\\.?\\w)`;
+  return new RegExp(
+    commonWord
+      ? `\\b(?:on|via|across)\\s+${word}|${word}\\s+(?:chain|network|mainnet)\\b`
+      : word
+  ).test(content);
+};
+
+/**
+ * Returns the keys of every known chain named in a message, by key, display
+ * name or alias. Token tickers such as "ETH" or "ARB" are deliberately not
+ * aliases, as they are more often about the token than the chain.
+ */
+export const extractChains = (text: string): string[] => {
+  const content = text.toLowerCase();
+
+  return OCTAV_CHAINS.filter((chain) =>
+    [chain.key, chain.name, ...chain.aliases].some((name) =>
+      mentions(content, name, chain.commonWord)
+    )
+  ).map((chain) => chain.key);
+};
+
+/**
+ * Whether a message names a chain by one of its names, e.g. a chain of a
+ * portfolio Octav does not list, with the same rules as `extractChains`.
+ */
+export const mentionsChain = (text: string, name: string): boolean =>
+  mentions(
+    text.toLowerCase(),
+    name,
+    OCTAV_CHAINS.some(
+      (chain) =>
+        chain.commonWord &&
+        [chain.key, chain.name.toLowerCase()].includes(name.toLowerCase())
+    )
+  );
+
+/**
+ * Returns the key of the chain a name refers to, e.g. "binance" for "BSC"
+ * or "BNB Chain".
+ */
+export const findChainKey = (name: string): string | undefined => {
+  const value = name.trim().toLowerCase();
+  return OCTAV_CHAINS.find((chain) =>
+    [chain.key, chain.name, ...chain.aliases].some(
+      (candidate) => candidate.toLowerCase() === value
+    )
+  )?.key;
+};
+
+export const getChainName = (key: string): string =>
+  OCTAV_CHAINS.find((chain) => chain.key === key)?.name ?? key;
@@ -0,0 +1,78 @@
+import { formatCurrency, NumberFormatOptions } from "./format";
+
+export const FIAT_CURRENCIES = {
+  USD: { pattern: /\b(?:usd|us dollars?|dollars?)\b/i },
+  EUR: { pattern: /\b(?:eur|euros?)\b|€/i },
+  GBP: { pattern: /\b(?:gbp|pounds?(?: sterling)?|sterling)\b|£/i },
+  JPY: { pattern: /\b(?:jpy|yen)\b|¥/i },
+  CHF: { pattern: /\b(?:chf|swiss francs?)\b/i },
+  CAD: { pattern: /\b(?:cad|canadian dollars?)\b/i },
+  AUD: { pattern: /\b(?:aud|australian dollars?)\b/i },
+  CNY: { pattern: /\b(?:cny|rmb|yuan|renminbi)\b/i },
+  HKD: { pattern: /\b(?:hkd|hong kong dollars?)\b/i },
+  SGD: { pattern: /\b(?:sgd|singapore dollars?)\b/i },
+  KRW: { pattern: /\b(?:krw|korean won)\b|₩/i },
+  INR: { pattern: /\b(?:inr|rupees?)\b|₹/i },
+} as const;
+
+export type FiatCurrency = keyof typeof FIAT_CURRENCIES;
+
+/**
+ * Currency values are displayed in, with the number of its units worth one
+ * US dollar. Octav reports every value in USD. Rates from the built-in table
+ * are flagged as approximate.
+ */
+export type DisplayCurrency = {
+  code: FiatCurrency;
+  rate: number;
+  approximate?: boolean;
+};
+
+export const USD: DisplayCurrency = { code: "USD", rate: 1 };
+
+export const isFiatCurrency = (value: unknown): value is FiatCurrency =>
+  typeof value === "string" && value in FIAT_CURRENCIES;
+
+/**
+ * Currency asked for in a message, e.g. "portfolio in euros". Dollars are
+ * checked last so "Canadian dollars" is not read as USD.
+ */
+export const detectCurrency = (
+  text: string | undefined
+): FiatCurrency | undefined => {
+  const codes = Object.keys(FIAT_CURRENCIES) as FiatCurrency[];
+
+  return [...codes.filter((code) => code !== "USD"), "USD" as const].find(
+    (code) => FIAT_CURRENCIES[code].pattern.test(text ?? "")
+  );
+};
+
+/**
+ * Names the currency values are shown in, e.g. `EUR`, or `EUR, approximate
+ * rate` when the rate comes from the built-in table.
+ */
+export const describeCurrency = (currency: DisplayCurrency): string =>
+  currency.approximate ? `${currency.code}, approximate rate` : currency.code;
+
+/**
+ * Converts a USD amount and formats it in the display currency, e.g.
+ * `€1,234.50` or `¥185,000`.
+ */
+export const formatMoney = (
+  valueUsd: number,
+  currency: DisplayCurrency = USD,
+  options?: NumberFormatOptions
+): string => formatCurrency(valueUsd * currency.rate, currency.code, options);
+
+/**
+ * Converts a USD amount and formats it with an explicit sign, e.g. `+€12.00`.
+ */
+export const formatSignedMoney = (
+  valueUsd: number,
+  currency: DisplayCurrency = USD,
+  options?: NumberFormatOptions
+): string =>
+  formatCurrency(valueUsd * currency.rate, currency.code, {
+    ...options,
+    signed: true,
+  });
@@ -0,0 +1,172 @@
+export type DateRange = {
+  startDate?: Date;
+  endDate?: Date;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const MONTH_PATTERN = `(?:${MONTHS.map((month) => `${month.slice(0, 3)}(?:${month.slice(3)})?`).join("|")})\\b`;
+
+const DATE_PATTERN = `(\\d{4}-\\d{2}-\\d{2}|${MONTH_PATTERN}(?:\\s+\\d{1,2}(?:st|nd|rd|th)?)?(?:,?\\s+\\d{4})?)`;
+
+const startOfDay = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Parses an ISO date ("2025-01-31") or a month-based date ("January",
+ * "Jan 5", "January 5, 2024"). Month names without a year resolve to their
+ * most recent occurrence that is not in the future.
+ */
+export const parseDate = (
+  value: string,
+  now = new Date()
+): Date | undefined => {
+  const text = value.trim().toLowerCase();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(
+      Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    );
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+
+  const named = text.match(
+    /^([a-z]+)(?:\s+(\d{1,2})(?:st|nd|rd|th)?)?(?:,?\s+(\d{4}))?$/
+  );
+  if (!named) return undefined;
+
+  const month = MONTHS.findIndex((name) => name.startsWith(named[1]));
+  if (month === -1 || named[1].length < 3) return undefined;
+
+  const day = named[2] ? Number(named[2]) : 1;
+  let year = named[3] ? Number(named[3]) : now.getUTCFullYear();
+  let date = new Date(Date.UTC(year, month, day));
+
+  if (!named[3] && date.getTime() > now.getTime()) {
+    year -= 1;
+    date = new Date(Date.UTC(year, month, day));
+  }
+
+  return date;
+};
+
+/**
+ * Returns a range unchanged, failing when it ends before it starts.
+ */
+export const checkDateRange = (range: DateRange): DateRange => {
+  const { startDate, endDate } = range;
+  if (startDate && endDate && startDate.getTime() > endDate.getTime()) {
+    throw new Error(
+      `The period ends on ${formatDate(endDate)}, before it starts on ${formatDate(startDate)}. Put the earlier date first.`
+    );
+  }
+  return range;
+};
+
+/**
+ * Extracts a UTC date range from natural language such as "last week",
+ * "past 30 days", "yesterday", "since January" or
+ * "from 2025-01-01 to 2025-02-01". Returns an empty range when the message
+ * has no time reference, and fails on ranges that end before they start.
+ */
+export const parseDateRange = (text: string, now = new Date()): DateRange => {
+  const content = text.toLowerCase();
+  const today = startOfDay(now);
+
+  const between = content.match(
+    new RegExp(
+      `\\b(?:from|between)\\s+${DATE_PATTERN}\\s+(?:to|until|and|-)\\s+${DATE_PATTERN}`
+    )
+  );
+  if (between) {
+    const endDate = parseDate(between[2], now);
+    // A start without a year is the last one before the end, so "from
+    // March to June" is a single spring.
+    const startDate = endDate && parseDate(between[1], endDate);
+    if (startDate && endDate) return checkDateRange({ startDate, endDate });
+  }
+
+  const since = content.match(
+    new RegExp(`\\b(?:since|from)\\s+${DATE_PATTERN}`)
+  );
+  if (since) {
+    const startDate = parseDate(since[1], now);
+    if (startDate) return { startDate, endDate: now };
+  }
+
+  if (/\btoday\b/.test(content)) return { startDate: today, endDate: now };
+
+  if (/\byesterday\b/.test(content)) {
+    return { startDate: addDays(today, -1), endDate: today };
+  }
+
+  const relative = content.match(
+    /\b(?:last|past|previous)\s+(\d+)?\s*(day|week|month|year)s?\b/
+  );
+  if (relative) {
+    const amount = relative[1] ? Number(relative[1]) : 1;
+    const startDate = new Date(today);
+
+    switch (relative[2]) {
+      case "day":
+        return { startDate: addDays(today, -amount), endDate: now };
+      case "week":
+        return { startDate: addDays(today, -7 * amount), endDate: now };
+      case "month":
+        startDate.setUTCMonth(startDate.getUTCMonth() - amount);
+        return { startDate, endDate: now };
+      case "year":
+        startDate.setUTCFullYear(startDate.getUTCFullYear() - amount);
+        return { startDate, endDate: now };
+    }
+  }
+
+  const current = content.match(/\bthis\s+(week|month|year)\b/);
+  if (current) {
+    switch (current[1]) {
+      case "week":
+        return {
+          startDate: addDays(today, -((today.getUTCDay() + 6) % 7)),
+          endDate: now,
+        };
+      case "month":
+        return {
+          startDate: new Date(
+            Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1)
+          ),
+          endDate: now,
+        };
+      case "year":
+        return {
+          startDate: new Date(Date.UTC(today.getUTCFullYear(), 0, 1)),
+          endDate: now,
+        };
+    }
+  }
+
+  return {};
+};
+
+export const formatDate = (date: Date): string =>
+  date.toISOString().slice(0, 10);
@@ -0,0 +1,61 @@
+import { OctavPortfolioBalance } from "../types";
+import {
+  computePortfolioPerformance,
+  PortfolioPerformance,
+  ValueChange,
+} from "./performance";
+
+type Named = { key: string; name: string };
+
+export type PortfolioDiff = Pick<
+  PortfolioPerformance,
+  "startNetworth" | "endNetworth" | "change" | "changePercent"
+> & {
+  chainsAdded: Named[];
+  chainsRemoved: Named[];
+  protocolsAdded: Named[];
+  protocolsRemoved: Named[];
+  /** Value changes per protocol, largest absolute impact first. */
+  protocolChanges: ValueChange[];
+};
+
+const diffKeys = (
+  start: Record<string, { name: string }>,
+  end: Record<string, { name: string }>
+): { added: Named[]; removed: Named[] } => ({
+  added: Object.entries(end)
+    .filter(([key]) => !(key in start))
+    .map(([key, { name }]) => ({ key, name })),
+  removed: Object.entries(start)
+    .filter(([key]) => !(key in end))
+    .map(([key, { name }]) => ({ key, name })),
+});
+
+/**
+ * Diffs two snapshots of the same portfolio: net worth delta, chains and
+ * protocols that appeared or disappeared, and how every protocol's value
+ * moved.
+ */
+export const computePortfolioDiff = (
+  start: OctavPortfolioBalance,
+  end: OctavPortfolioBalance
+): PortfolioDiff => {
+  const { startNetworth, endNetworth, change, changePercent, protocols } =
+    computePortfolioPerformance(start, end);
+  const chains = diffKeys(start.chains, end.chains);
+  const protocolKeys = diffKeys(start.assetByProtocols, end.assetByProtocols);
+
+  return {
+    startNetworth,
+    endNetworth,
+    change,
+    changePercent,
+    chainsAdded: chains.added,
+    chainsRemoved: chains.removed,
+    protocolsAdded: protocolKeys.added,
+    protocolsRemoved: protocolKeys.removed,
+    protocolChanges: protocols
+      .filter((protocol) => protocol.change !== 0)
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change)),
+  };
+};
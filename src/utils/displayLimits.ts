@@ -0,0 +1,82 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { ValueEntry } from "./portfolio";
+import { readNumberSetting } from "./settings";
+
+/**
+ * Which chains and protocols of a portfolio are listed one by one. The rest
+ * is rolled up into a single "Other" line.
+ */
+export type DisplayLimits = {
+  /** Smallest USD value listed on its own line. */
+  minValue: number;
+  /** Most entries listed on their own line, `0` for no limit. */
+  maxEntries: number;
+};
+
+export const DEFAULT_DISPLAY_LIMITS: DisplayLimits = {
+  minValue: 1,
+  maxEntries: 10,
+};
+
+export const NO_DISPLAY_LIMITS: DisplayLimits = { minValue: 0, maxEntries: 0 };
+
+const SHOW_ALL_REGEX =
+  /\b(?:show|list) (?:all|every(?:thing)?)\b|\b(?:include|including|with) (?:dust|small (?:positions|balances))\b/i;
+
+/**
+ * Limits of a response: none when the message asks for everything ("show
+ * all chains", "include dust"), else `OCTAV_DUST_THRESHOLD_USD` and
+ * `OCTAV_MAX_DISPLAY_ENTRIES`.
+ */
+export const resolveDisplayLimits = (
+  runtime: IAgentRuntime | undefined,
+  text: string | undefined
+): DisplayLimits =>
+  SHOW_ALL_REGEX.test(text ?? "")
+    ? NO_DISPLAY_LIMITS
+    : {
+        minValue: readNumberSetting(
+          runtime,
+          "OCTAV_DUST_THRESHOLD_USD",
+          DEFAULT_DISPLAY_LIMITS.minValue
+        ),
+        maxEntries: readNumberSetting(
+          runtime,
+          "OCTAV_MAX_DISPLAY_ENTRIES",
+          DEFAULT_DISPLAY_LIMITS.maxEntries
+        ),
+      };
+
+export type RolledUpEntries = {
+  shown: ValueEntry[];
+  /** Entries left out, with their total value. */
+  other: { count: number; value: number } | null;
+};
+
+/**
+ * Keeps the largest entries worth at least the minimum value, in their
+ * original order, and totals the others. Debts count by their size.
+ */
+export const rollUpEntries = (
+  entries: ValueEntry[],
+  { minValue, maxEntries }: DisplayLimits
+): RolledUpEntries => {
+  const kept = new Set(
+    entries
+      .filter((entry) => Math.abs(entry.value) >= minValue)
+      .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+      .slice(0, maxEntries > 0 ? maxEntries : undefined)
+  );
+  const hidden = entries.filter((entry) => !kept.has(entry));
+
+  return {
+    shown: entries.filter((entry) => kept.has(entry)),
+    other:
+      hidden.length > 0
+        ? {
+            count: hidden.length,
+            value: hidden.reduce((total, entry) => total + entry.value, 0),
+          }
+        : null,
+  };
+};
@@ -0,0 +1,104 @@
+import { ContentType, Media } from "@elizaos/core";
+import { OctavPortfolioBalance } from "../types";
+
+export type ExportFormat = "csv" | "json";
+
+/**
+ * Columns of a portfolio export, in the order they are written. New columns
+ * go at the end so existing spreadsheet imports keep working.
+ */
+export const PORTFOLIO_EXPORT_COLUMNS = [
+  "address",
+  "chain",
+  "chain_name",
+  "protocol",
+  "protocol_name",
+  "value_usd",
+  "cost_basis_usd",
+  "open_pnl_usd",
+  "closed_pnl_usd",
+] as const;
+
+export type PortfolioExportRow = Record<
+  (typeof PORTFOLIO_EXPORT_COLUMNS)[number],
+  string
+>;
+
+const compareKeys = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Flattens portfolios into one row per address, protocol and chain. Rows
+ * follow the order of the addresses, then protocol and chain keys, so two
+ * exports of the same portfolio line up. Amounts keep Octav's decimal
+ * strings to avoid rounding.
+ */
+export const toPortfolioExportRows = (
+  portfolios: OctavPortfolioBalance[]
+): PortfolioExportRow[] =>
+  portfolios.flatMap((portfolio) =>
+    Object.entries(portfolio.assetByProtocols)
+      .sort(([a], [b]) => compareKeys(a, b))
+      .flatMap(([protocolKey, protocol]) =>
+        Object.entries(protocol.chains)
+          .sort(([a], [b]) => compareKeys(a, b))
+          .map(([chainKey, chain]) => ({
+            address: portfolio.address,
+            chain: chainKey,
+            chain_name: chain.name,
+            protocol: protocolKey,
+            protocol_name: protocol.name,
+            value_usd: chain.value,
+            cost_basis_usd: chain.totalCostBasis,
+            open_pnl_usd: chain.totalOpenPnl,
+            closed_pnl_usd: chain.totalClosedPnl,
+          }))
+      )
+  );
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Writes rows as RFC 4180 CSV: a header line, CRLF line endings and quoted
+ * fields where needed.
+ */
+export const toCsv = <T extends Record<string, string>>(
+  columns: readonly (keyof T & string)[],
+  rows: T[]
+): string =>
+  [
+    columns.join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvField(row[column] ?? "")).join(",")
+    ),
+  ].join("\r\n") + "\r\n";
+
+/**
+ * Wraps a generated file as a message attachment. The file travels inline
+ * as a data URL, with its content also in `text` for clients that read it.
+ */
+export const toFileAttachment = (
+  title: string,
+  mimeType: string,
+  text: string
+): Media => ({
+  id: crypto.randomUUID(),
+  url: `data:${mimeType};base64,${Buffer.from(text, "utf8").toString("base64")}`,
+  title,
+  source: "octav",
+  description: `Octav export ${title}`,
+  text,
+  contentType: ContentType.DOCUMENT,
+});
+
+/**
+ * Formats asked for in a message, both when it names neither.
+ */
+export const detectExportFormats = (
+  text: string | undefined
+): ExportFormat[] => {
+  const formats = (["csv", "json"] as const).filter((format) =>
+    new RegExp(`\\b${format}\\b`, "i").test(text ?? "")
+  );
+  return formats.length > 0 ? formats : ["csv", "json"];
+};
@@ -0,0 +1,201 @@
+import { IAgentRuntime, logger } from "@elizaos/core";
+
+export type NegativeStyle = "sign" | "parentheses";
+
+/**
+ * How numbers are written: the locale's separators and decimal mark,
+ * whether large amounts are abbreviated ($12.3M), and whether negative
+ * amounts get a minus sign or parentheses.
+ */
+export type NumberFormatSettings = {
+  locale: string;
+  compact: boolean;
+  negativeStyle: NegativeStyle;
+};
+
+export type NumberFormatOptions = Partial<NumberFormatSettings>;
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormatSettings = {
+  locale: "en-US",
+  compact: false,
+  negativeStyle: "sign",
+};
+
+const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads `OCTAV_LOCALE`, `OCTAV_COMPACT_NUMBERS` and `OCTAV_NEGATIVE_STYLE`
+ * from the runtime settings. Actions pass the result to the formatters, so
+ * agents sharing a process keep their own settings.
+ */
+export const resolveNumberFormat = (
+  runtime?: IAgentRuntime
+): NumberFormatSettings => {
+  const read = (key: string) => {
+    const value = runtime?.getSetting(key) ?? process.env[key];
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+
+  const locale = read("OCTAV_LOCALE");
+  if (locale && !isSupportedLocale(locale)) {
+    logger.warn(`[Format] - Unsupported OCTAV_LOCALE ${locale}, using en-US`);
+  }
+
+  return {
+    locale:
+      locale && isSupportedLocale(locale)
+        ? locale
+        : DEFAULT_NUMBER_FORMAT.locale,
+    compact: read("OCTAV_COMPACT_NUMBERS") === "true",
+    negativeStyle:
+      read("OCTAV_NEGATIVE_STYLE") === "parentheses" ? "parentheses" : "sign",
+  };
+};
+
+/** Amounts from this size up are abbreviated in compact notation. */
+const COMPACT_THRESHOLD = 1000;
+
+const currencyFractionDigits = (locale: string, currency: string) =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+  }).resolvedOptions().maximumFractionDigits ?? 2;
+
+/**
+ * Formats an amount in a currency. Amounts too small to show with the
+ * currency's usual decimals keep two significant digits ($0.0012) instead
+ * of collapsing to $0.00.
+ */
+export const formatCurrency = (
+  value: number,
+  currency = "USD",
+  options: NumberFormatOptions & { signed?: boolean } = {}
+): string => {
+  const { locale, compact, negativeStyle } = {
+    ...DEFAULT_NUMBER_FORMAT,
+    ...options,
+  };
+  const amount = value === 0 ? 0 : value;
+  const magnitude = Math.abs(amount);
+  const wrap = negativeStyle === "parentheses" && amount < 0;
+
+  const format: Intl.NumberFormatOptions = {
+    style: "currency",
+    currency,
+    signDisplay: wrap ? "never" : options.signed ? "always" : "auto",
+  };
+  if (compact && magnitude >= COMPACT_THRESHOLD) {
+    format.notation = "compact";
+    format.maximumFractionDigits = 1;
+  } else if (
+    magnitude > 0 &&
+    magnitude < 10 ** -currencyFractionDigits(locale, currency)
+  ) {
+    format.maximumSignificantDigits = 2;
+  }
+
+  const formatted = new Intl.NumberFormat(locale, format).format(amount);
+  return wrap ? `(${formatted})` : formatted;
+};
+
+/**
+ * Formats a USD amount, e.g. `$12,345.68`.
+ */
+export const formatUsd = (value: number, options?: NumberFormatOptions) =>
+  formatCurrency(value, "USD", options);
+
+/**
+ * Formats a USD amount with an explicit sign, e.g. `+$12.00` or `-$3.50`
+ * (`($3.50)` with the parentheses style).
+ */
+export const formatSignedUsd = (
+  value: number,
+  options?: NumberFormatOptions
+): string => formatCurrency(value, "USD", { ...options, signed: true });
+
+/**
+ * Formats a plain number with the locale's separators, e.g. `8,200`.
+ */
+export const formatNumber = (
+  value: number,
+  decimals = 0,
+  options: NumberFormatOptions = {}
+): string =>
+  new Intl.NumberFormat(options.locale ?? DEFAULT_NUMBER_FORMAT.locale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(value);
+
+/**
+ * Formats a token amount with up to four decimals, keeping two significant
+ * digits for dust, e.g. `1,234.5` or `0.000012`.
+ */
+export const formatTokenAmount = (
+  value: number,
+  options: NumberFormatOptions = {}
+): string => {
+  const magnitude = Math.abs(value);
+
+  return new Intl.NumberFormat(
+    options.locale ?? DEFAULT_NUMBER_FORMAT.locale,
+    magnitude > 0 && magnitude < 0.0001
+      ? { maximumSignificantDigits: 2 }
+      : { maximumFractionDigits: 4 }
+  ).format(value);
+};
+
+/**
+ * Formats a signed percentage, or `n/a` when it is undefined.
+ */
+export const formatPercent = (
+  value: number | null,
+  options: NumberFormatOptions = {}
+): string =>
+  value === null
+    ? "n/a"
+    : new Intl.NumberFormat(options.locale ?? DEFAULT_NUMBER_FORMAT.locale, {
+        style: "percent",
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+        signDisplay: "always",
+      }).format((value === 0 ? 0 : value) / 100);
+
+/**
+ * Formats a share of a whole as a percentage, or `n/a` when it is undefined.
+ */
+export const formatShare = (
+  value: number | null,
+  options: NumberFormatOptions = {}
+): string =>
+  value === null
+    ? "n/a"
+    : new Intl.NumberFormat(options.locale ?? DEFAULT_NUMBER_FORMAT.locale, {
+        style: "percent",
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      }).format(value / 100);
+
+/**
+ * Lays out rows as a plain-text table whose columns are padded to the
+ * widest cell and separated by pipes.
+ */
+export const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column]?.length ?? 0))
+  );
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join(" | ")
+        .trimEnd()
+    )
+    .join("\n");
+};
@@ -0,0 +1,153 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { Asset, OctavPortfolioBalance, TokenHolding } from "../types";
+
+export type TokenHoldingsFilter = {
+  chain?: string;
+  minValue?: number;
+  limit?: number;
+};
+
+export const DEFAULT_TOKEN_HOLDINGS_LIMIT = 20;
+
+/**
+ * Flattens every token position of one or several portfolios into a list of
+ * holdings, merging the same token held across protocols and wallets.
+ * Borrowed assets are debts, not holdings, and are left out.
+ */
+export const extractTokenHoldings = (
+  portfolios: OctavPortfolioBalance[]
+): TokenHolding[] => {
+  const holdings = new Map<string, TokenHolding>();
+
+  const addAsset = (
+    asset: Asset,
+    chainKey: string,
+    chainName: string,
+    protocolName: string
+  ) => {
+    const key = `${chainKey}:${(asset.contract ?? asset.symbol).toLowerCase()}`;
+    const holding = holdings.get(key);
+
+    if (!holding) {
+      holdings.set(key, {
+        symbol: asset.symbol,
+        name: asset.name,
+        balance: Number(asset.balance),
+        price: Number(asset.price),
+        value: Number(asset.value),
+        contract: asset.contract,
+        chain: chainKey,
+        chainName,
+        protocols: [protocolName],
+      });
+      return;
+    }
+
+    holding.balance += Number(asset.balance);
+    holding.value += Number(asset.value);
+    if (!holding.protocols.includes(protocolName)) {
+      holding.protocols.push(protocolName);
+    }
+  };
+
+  for (const portfolio of portfolios) {
+    for (const protocol of Object.values(portfolio.assetByProtocols)) {
+      for (const [chainKey, chain] of Object.entries(protocol.chains)) {
+        for (const group of Object.values(chain.protocolPositions)) {
+          const assets = [
+            ...group.assets,
+            ...group.protocolPositions.flatMap((position) => [
+              ...position.assets,
+              ...position.supplyAssets,
+              ...position.rewardAssets,
+            ]),
+          ];
+
+          for (const asset of assets) {
+            addAsset(asset, chainKey, chain.name, protocol.name);
+          }
+        }
+      }
+    }
+  }
+
+  return [...holdings.values()].sort((a, b) => b.value - a.value);
+};
+
+/**
+ * Applies the chain, minimum USD value and top-N filters to a list of
+ * holdings already sorted by value.
+ */
+export const filterTokenHoldings = (
+  holdings: TokenHolding[],
+  { chain, minValue, limit = DEFAULT_TOKEN_HOLDINGS_LIMIT }: TokenHoldingsFilter
+): TokenHolding[] => {
+  const chainFilter = chain?.toLowerCase();
+
+  return holdings
+    .filter(
+      (holding) =>
+        !chainFilter ||
+        holding.chain.toLowerCase() === chainFilter ||
+        holding.chainName.toLowerCase() === chainFilter
+    )
+    .filter((holding) => minValue === undefined || holding.value >= minValue)
+    .slice(0, limit);
+};
+
+const CALL_TO_ACTION_PATTERN = /\b(?:claim|visit)\b/i;
+
+/**
+ * Airdropped spam tokens advertise a website or bait holders into
+ * "claiming" a reward. Real names can contain a domain ("Crypto.com Coin")
+ * or reward wording ("Staked Aave Rewards"), so only symbols are checked for
+ * domains and only explicit calls to action are flagged.
+ */
+export const SPAM_TOKEN_PATTERNS = {
+  symbol: [
+    /https?:\/\/|www\.|\.(?:com|io|org|net|xyz|site|app|top|vip|gift)\b/i,
+    CALL_TO_ACTION_PATTERN,
+  ],
+  name: [/https?:\/\/|www\./i, CALL_TO_ACTION_PATTERN],
+};
+
+const INCLUDE_SPAM_REGEX =
+  /\b(?:include|including|with|show) (?:spam|scam)(?: tokens)?\b/i;
+
+/**
+ * Whether a message asks to keep suspected spam tokens, e.g. "including
+ * spam".
+ */
+export const isSpamRequested = (text: string | undefined): boolean =>
+  INCLUDE_SPAM_REGEX.test(text ?? "");
+
+/**
+ * Contracts and symbols listed in `OCTAV_SPAM_TOKENS`, lowercased.
+ */
+export const resolveSpamTokenList = (runtime?: IAgentRuntime): Set<string> => {
+  const value =
+    runtime?.getSetting("OCTAV_SPAM_TOKENS") ?? process.env.OCTAV_SPAM_TOKENS;
+
+  return new Set(
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((entry) => entry.trim().toLowerCase())
+          .filter(Boolean)
+      : []
+  );
+};
+
+/**
+ * Flags a holding as spam when its contract or symbol is listed, or its
+ * name or symbol looks like an advertisement.
+ */
+export const isSpamToken = (
+  holding: TokenHolding,
+  spamTokens: Set<string> = new Set()
+): boolean =>
+  (holding.contract !== undefined &&
+    spamTokens.has(holding.contract.toLowerCase())) ||
+  spamTokens.has(holding.symbol.toLowerCase()) ||
+  SPAM_TOKEN_PATTERNS.symbol.some((pattern) => pattern.test(holding.symbol)) ||
+  SPAM_TOKEN_PATTERNS.name.some((pattern) => pattern.test(holding.name ?? ""));
@@ -0,0 +1,188 @@
+import { IAgentRuntime, logger, ModelType } from "@elizaos/core";
+import { z } from "zod";
+import { findChainKey } from "./chains";
+import { checkDateRange, DateRange, formatDate, parseDate } from "./dateRange";
+import { OUTPUT_FORMATS } from "./outputFormat";
+
+/**
+ * What a message can ask of the plugin, with the description the model
+ * picks from.
+ */
+export const OCTAV_INTENTS = {
+  portfolio: "balances or net worth of one or several crypto wallets",
+  token_holdings: "tokens held by a wallet",
+  transactions: "transaction history",
+  performance: "how net worth changed over a period",
+  pnl: "profit and loss or cost basis",
+  compare_portfolio: "what changed in a wallet since an earlier date",
+  compare_wallets: "several wallets side by side",
+  risk: "allocation or concentration risk",
+  export: "a CSV or JSON export of a wallet",
+  credits: "remaining Octav API credits",
+  watchlist: "watching or unwatching addresses",
+  alert: "alerts on a wallet",
+  save_address: "saving an address under a name",
+  none: "anything else, including portfolios that are not crypto wallets",
+} as const;
+
+export type OctavIntent = keyof typeof OCTAV_INTENTS;
+
+const listSchema = z
+  .array(z.string())
+  .nullish()
+  .transform((values) => values ?? []);
+
+export const messageIntentSchema = z.object({
+  intent: z.enum(Object.keys(OCTAV_INTENTS) as [OctavIntent, ...OctavIntent[]]),
+  addresses: listSchema,
+  chains: listSchema,
+  protocols: listSchema,
+  dateRange: z
+    .object({
+      start: z.string().nullish(),
+      end: z.string().nullish(),
+    })
+    .nullish(),
+  minValueUsd: z.number().nonnegative().nullish(),
+  outputFormat: z.enum(OUTPUT_FORMATS).nullish(),
+});
+
+export type MessageIntent = z.infer<typeof messageIntentSchema>;
+
+const buildIntentPrompt = (
+  text: string,
+  now: Date
+) => `You route messages sent to a crypto portfolio assistant backed by the Octav API. Today is ${formatDate(now)}.
+
+Message:
+"""
+${text}
+"""
+
+Respond with a JSON object with these fields:
+- intent: one of
+${Object.entries(OCTAV_INTENTS)
+  .map(([intent, description]) => `  - "${intent}": ${description}`)
+  .join("\n")}
+- addresses: wallet addresses, ENS names, Basenames, wallet nicknames and references such as "my wallet" or "that address", exactly as written in the message
+- chains: blockchains the message asks about, e.g. "arbitrum", not those that are part of a name such as "jesse.base.eth"
+- protocols: DeFi protocols mentioned, e.g. "aave"
+- dateRange: { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" } when a period is mentioned, else null
+- minValueUsd: smallest USD value to list when a threshold is asked for, e.g. 100 for "tokens over $100", else null
+- outputFormat: one of ${OUTPUT_FORMATS.map((format) => `"${format}"`).join(", ")} when a layout is asked for, else null`;
+
+const isExtractionEnabled = (runtime: IAgentRuntime): boolean => {
+  const value =
+    runtime.getSetting("OCTAV_LLM_EXTRACTION") ??
+    process.env.OCTAV_LLM_EXTRACTION;
+  return String(value ?? "true").toLowerCase() !== "false";
+};
+
+const MAX_CACHED_INTENTS = 50;
+
+// Validation and the handler read the same message, so each runtime keeps
+// the last extractions to ask the model once per message.
+const intentCache = new WeakMap<
+  IAgentRuntime,
+  Map<string, Promise<MessageIntent | null>>
+>();
+
+const requestIntent = async (
+  runtime: IAgentRuntime,
+  text: string,
+  now: Date
+): Promise<MessageIntent | null> => {
+  try {
+    const response = await runtime.useModel(ModelType.OBJECT_SMALL, {
+      prompt: buildIntentPrompt(text, now),
+      temperature: 0,
+    });
+    const result = messageIntentSchema.safeParse(response);
+    if (!result.success) {
+      logger.warn(
+        `[Intent] - Model returned an invalid extraction: ${result.error.issues[0]?.message}`
+      );
+      return null;
+    }
+
+    // Models sometimes complete or rewrite addresses; only those actually
+    // written in the message are trusted.
+    const content = text.toLowerCase();
+    return {
+      ...result.data,
+      addresses: result.data.addresses.filter((address) =>
+        content.includes(address.toLowerCase())
+      ),
+    };
+  } catch (error) {
+    logger.warn(
+      `[Intent] - Extraction failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
+  }
+};
+
+/**
+ * Asks the agent's object model what a message wants and which addresses,
+ * chains, protocols, period, minimum value and layout it mentions. Returns
+ * `null` when no model is registered, `OCTAV_LLM_EXTRACTION` is `false` or
+ * the model fails, so callers fall back to keyword and regex matching.
+ */
+export const extractMessageIntent = (
+  runtime: IAgentRuntime,
+  text: string | undefined,
+  now = new Date()
+): Promise<MessageIntent | null> => {
+  if (
+    !text?.trim() ||
+    !runtime.getModel?.(ModelType.OBJECT_SMALL) ||
+    !isExtractionEnabled(runtime)
+  ) {
+    return Promise.resolve(null);
+  }
+
+  let cache = intentCache.get(runtime);
+  if (!cache) {
+    cache = new Map();
+    intentCache.set(runtime, cache);
+  }
+
+  const cached = cache.get(text);
+  if (cached) return cached;
+
+  const intent = requestIntent(runtime, text, now);
+  cache.set(text, intent);
+  if (cache.size > MAX_CACHED_INTENTS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+
+  return intent;
+};
+
+/**
+ * Keys of the known chains an extraction names. Names Octav does not list
+ * are left out.
+ */
+export const getIntentChains = (intent: MessageIntent): string[] =>
+  intent.chains
+    .map(findChainKey)
+    .filter((key): key is string => key !== undefined);
+
+/**
+ * The period an extraction names, checked like `parseDateRange`: a start
+ * without an end runs until now, and an empty range means none was named.
+ */
+export const getIntentDateRange = (
+  intent: MessageIntent,
+  now = new Date()
+): DateRange => {
+  const startDate = intent.dateRange?.start
+    ? parseDate(intent.dateRange.start, now)
+    : undefined;
+  const endDate = intent.dateRange?.end
+    ? parseDate(intent.dateRange.end, now)
+    : undefined;
+  if (!startDate && !endDate) return {};
+
+  return checkDateRange({ startDate, endDate: endDate ?? now });
+};
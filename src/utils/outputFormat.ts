@@ -0,0 +1,50 @@
+import { IAgentRuntime } from "@elizaos/core";
+
+export const OUTPUT_FORMATS = ["text", "markdown", "compact", "json"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "text";
+
+/**
+ * Renders the same result in each output format, so an action can pick the
+ * one the message or the agent's settings ask for.
+ */
+export type FormatterRegistry<T> = Record<OutputFormat, (result: T) => string>;
+
+const FORMAT_PATTERNS: [OutputFormat, RegExp][] = [
+  ["json", /\bjson\b/i],
+  ["markdown", /\bmarkdown\b|\b(?:as|in) an? (?:markdown )?table\b/i],
+  ["compact", /\bcompact\b|\bone[- ]liner\b|\b(?:in )?one line\b/i],
+  ["text", /\bplain(?: text)?\b/i],
+];
+
+const isOutputFormat = (value: unknown): value is OutputFormat =>
+  OUTPUT_FORMATS.includes(value as OutputFormat);
+
+/**
+ * Output format asked for in a message, e.g. "give me the portfolio as a
+ * table" or "as json".
+ */
+export const detectOutputFormat = (
+  text: string | undefined
+): OutputFormat | undefined =>
+  FORMAT_PATTERNS.find(([, pattern]) => pattern.test(text ?? ""))?.[0];
+
+/**
+ * Output format of a response: the one the message asks for, else
+ * `OCTAV_OUTPUT_FORMAT`, else plain text.
+ */
+export const resolveOutputFormat = (
+  runtime: IAgentRuntime | undefined,
+  text: string | undefined
+): OutputFormat => {
+  const configured =
+    runtime?.getSetting("OCTAV_OUTPUT_FORMAT") ??
+    process.env.OCTAV_OUTPUT_FORMAT;
+
+  return (
+    detectOutputFormat(text) ??
+    (isOutputFormat(configured) ? configured : DEFAULT_OUTPUT_FORMAT)
+  );
+};
@@ -0,0 +1,68 @@
+import { OctavPortfolioBalance } from "../types";
+
+export type ValueChange = {
+  key: string;
+  name: string;
+  startValue: number;
+  endValue: number;
+  change: number;
+  changePercent: number | null;
+};
+
+export type PortfolioPerformance = {
+  startNetworth: number;
+  endNetworth: number;
+  change: number;
+  changePercent: number | null;
+  chains: ValueChange[];
+  protocols: ValueChange[];
+};
+
+type NamedValues = Record<string, { name: string; value: string }>;
+
+/**
+ * Percentage change from `start` to `end`, or `null` when it is undefined
+ * because nothing was held at the start.
+ */
+export const percentChange = (start: number, end: number): number | null =>
+  start === 0 ? null : ((end - start) / Math.abs(start)) * 100;
+
+const compareValues = (start: NamedValues, end: NamedValues): ValueChange[] => {
+  const keys = new Set([...Object.keys(start), ...Object.keys(end)]);
+
+  return [...keys]
+    .map((key) => {
+      const startValue = Number(start[key]?.value ?? 0);
+      const endValue = Number(end[key]?.value ?? 0);
+      return {
+        key,
+        name: end[key]?.name ?? start[key]?.name ?? key,
+        startValue,
+        endValue,
+        change: endValue - startValue,
+        changePercent: percentChange(startValue, endValue),
+      };
+    })
+    .sort((a, b) => b.change - a.change);
+};
+
+/**
+ * Computes the performance between two snapshots of the same portfolio.
+ * Chains and protocols are sorted from best to worst absolute change.
+ */
+export const computePortfolioPerformance = (
+  start: OctavPortfolioBalance,
+  end: OctavPortfolioBalance
+): PortfolioPerformance => {
+  const startNetworth = Number(start.networth);
+  const endNetworth = Number(end.networth);
+
+  return {
+    startNetworth,
+    endNetworth,
+    change: endNetworth - startNetworth,
+    changePercent: percentChange(startNetworth, endNetworth),
+    chains: compareValues(start.chains, end.chains),
+    protocols: compareValues(start.assetByProtocols, end.assetByProtocols),
+  };
+};
@@ -0,0 +1,79 @@
+import { Chain, OctavPortfolioBalance } from "../types";
+import { percentChange } from "./performance";
+
+export type PnlEntry = {
+  key: string;
+  name: string;
+  value: number;
+  costBasis: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  returnOnCostBasis: number | null;
+};
+
+export type PnlReport = {
+  totals: Omit<PnlEntry, "key" | "name">;
+  chains: PnlEntry[];
+  protocols: PnlEntry[];
+};
+
+const toPnlEntry = (key: string, entry: Chain): PnlEntry => {
+  const costBasis = Number(entry.totalCostBasis);
+  const realizedPnl = Number(entry.totalClosedPnl);
+  const unrealizedPnl = Number(entry.totalOpenPnl);
+  const totalPnl = realizedPnl + unrealizedPnl;
+
+  return {
+    key,
+    name: entry.name,
+    value: Number(entry.value),
+    costBasis,
+    realizedPnl,
+    unrealizedPnl,
+    totalPnl,
+    returnOnCostBasis:
+      costBasis === 0 ? null : percentChange(costBasis, costBasis + totalPnl),
+  };
+};
+
+const sumEntries = (entries: PnlEntry[]): PnlReport["totals"] => {
+  const totals = entries.reduce(
+    (sum, entry) => ({
+      value: sum.value + entry.value,
+      costBasis: sum.costBasis + entry.costBasis,
+      realizedPnl: sum.realizedPnl + entry.realizedPnl,
+      unrealizedPnl: sum.unrealizedPnl + entry.unrealizedPnl,
+      totalPnl: sum.totalPnl + entry.totalPnl,
+    }),
+    { value: 0, costBasis: 0, realizedPnl: 0, unrealizedPnl: 0, totalPnl: 0 }
+  );
+
+  return {
+    ...totals,
+    returnOnCostBasis:
+      totals.costBasis === 0
+        ? null
+        : percentChange(totals.costBasis, totals.costBasis + totals.totalPnl),
+  };
+};
+
+/**
+ * Builds the realized and unrealized PnL report of a portfolio from the cost
+ * basis figures Octav already returns per chain and per protocol. Entries
+ * are ranked from biggest winner to biggest loser.
+ */
+export const computePnlReport = (
+  portfolio: OctavPortfolioBalance
+): PnlReport => {
+  const byTotalPnl = (a: PnlEntry, b: PnlEntry) => b.totalPnl - a.totalPnl;
+
+  const chains = Object.entries(portfolio.chains)
+    .map(([key, chain]) => toPnlEntry(key, chain))
+    .sort(byTotalPnl);
+  const protocols = Object.entries(portfolio.assetByProtocols)
+    .map(([key, protocol]) => toPnlEntry(key, protocol))
+    .sort(byTotalPnl);
+
+  return { totals: sumEntries(chains), chains, protocols };
+};
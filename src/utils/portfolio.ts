@@ -0,0 +1,150 @@
+import {
+  AssetByProtocols,
+  Chain,
+  OctavPortfolioBalance,
+  PositionGroup,
+  ProtocolChain,
+} from "../types";
+
+type ValueFields = Pick<
+  Chain,
+  "value" | "totalCostBasis" | "totalClosedPnl" | "totalOpenPnl"
+>;
+
+const sum = (a: string | undefined, b: string | undefined): string =>
+  String((Number(a) || 0) + (Number(b) || 0));
+
+const sumValueFields = <T extends ValueFields>(
+  current: T | undefined,
+  next: T
+): T =>
+  current
+    ? {
+        ...current,
+        value: sum(current.value, next.value),
+        totalCostBasis: sum(current.totalCostBasis, next.totalCostBasis),
+        totalClosedPnl: sum(current.totalClosedPnl, next.totalClosedPnl),
+        totalOpenPnl: sum(current.totalOpenPnl, next.totalOpenPnl),
+      }
+    : { ...next };
+
+const mergeChains = (
+  target: Record<string, Chain>,
+  chains: Record<string, Chain> | undefined
+): Record<string, Chain> => {
+  for (const [chainKey, chain] of Object.entries(chains ?? {})) {
+    target[chainKey] = sumValueFields(target[chainKey], chain);
+  }
+  return target;
+};
+
+const mergePositionGroups = (
+  current: Record<string, PositionGroup>,
+  next: Record<string, PositionGroup>
+): Record<string, PositionGroup> => {
+  const merged = { ...current };
+  for (const [groupKey, group] of Object.entries(next)) {
+    const existing = merged[groupKey];
+    merged[groupKey] = existing
+      ? {
+          ...existing,
+          totalValue: sum(existing.totalValue, group.totalValue),
+          assets: [...existing.assets, ...group.assets],
+          protocolPositions: [
+            ...existing.protocolPositions,
+            ...group.protocolPositions,
+          ],
+        }
+      : group;
+  }
+  return merged;
+};
+
+const mergeProtocolChains = (
+  target: Record<string, ProtocolChain>,
+  chains: Record<string, ProtocolChain>
+): Record<string, ProtocolChain> => {
+  for (const [chainKey, chain] of Object.entries(chains)) {
+    const existing = target[chainKey];
+    target[chainKey] = {
+      ...sumValueFields(existing, chain),
+      protocolPositions: mergePositionGroups(
+        existing?.protocolPositions ?? {},
+        chain.protocolPositions
+      ),
+    };
+  }
+  return target;
+};
+
+/**
+ * Combines the portfolios of several addresses into a single snapshot whose
+ * chain and protocol values are the sums across every wallet.
+ */
+export const mergePortfolios = (
+  portfolios: OctavPortfolioBalance[]
+): OctavPortfolioBalance => {
+  const chains: Record<string, Chain> = {};
+  const assetByProtocols: AssetByProtocols = {};
+  let networth = 0;
+
+  for (const portfolio of portfolios) {
+    networth += Number(portfolio.networth) || 0;
+    mergeChains(chains, portfolio.chains);
+
+    for (const [protocolKey, protocol] of Object.entries(
+      portfolio.assetByProtocols ?? {}
+    )) {
+      const merged = sumValueFields(assetByProtocols[protocolKey], protocol);
+      merged.chains = mergeProtocolChains(
+        { ...assetByProtocols[protocolKey]?.chains },
+        protocol.chains
+      );
+      assetByProtocols[protocolKey] = merged;
+    }
+  }
+
+  return {
+    address: portfolios.map((portfolio) => portfolio.address).join(", "),
+    networth: String(networth),
+    assetByProtocols,
+    chains,
+  };
+};
+
+export type ValueEntry = { key: string; name: string; value: number };
+
+/**
+ * Value held on each chain, in the order Octav lists them.
+ */
+export const getChainValues = (
+  portfolio: OctavPortfolioBalance
+): ValueEntry[] =>
+  Object.entries(portfolio.chains).map(([key, chain]) => ({
+    key,
+    name: chain.name,
+    value: Number(chain.value),
+  }));
+
+/**
+ * Value held in each protocol, largest first, with the wallet itself on top.
+ */
+export const getProtocolValues = (
+  portfolio: OctavPortfolioBalance
+): ValueEntry[] => {
+  const protocols = Object.entries(portfolio.assetByProtocols)
+    .map(([key, protocol]) => ({
+      key,
+      name: protocol.name,
+      value: Number(protocol.value),
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  const walletIndex = protocols.findIndex((p) => p.name === "Wallet");
+  if (walletIndex > -1) {
+    const wallet = protocols.splice(walletIndex, 1)[0];
+    protocols.unshift(wallet);
+  }
+
+  return protocols;
+};
@@ -0,0 +1,8 @@
+const REFRESH_REGEX = /\b(?:refresh(?:ed)?|reload|fresh|force)\b/i;
+
+/**
+ * Whether a message asks for up-to-date data rather than a cached response,
+ * e.g. "refresh portfolio for 0x…".
+ */
+export const isRefreshRequested = (text: string | undefined): boolean =>
+  REFRESH_REGEX.test(text ?? "");
@@ -0,0 +1,192 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { OctavPortfolioBalance } from "../types";
+import { formatNumber, formatShare, NumberFormatOptions } from "./format";
+import { extractTokenHoldings } from "./holdings";
+import { getChainValues, getProtocolValues, ValueEntry } from "./portfolio";
+import { readNumberSetting } from "./settings";
+
+export type RiskThresholds = {
+  /** Largest share of net worth a single protocol may hold, in percent. */
+  maxProtocolPercent: number;
+  /** Largest share of net worth a single chain may hold, in percent. */
+  maxChainPercent: number;
+  /** Herfindahl index, on a 0–10,000 scale, above which a split is concentrated. */
+  maxConcentrationIndex: number;
+};
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+  maxProtocolPercent: 50,
+  maxChainPercent: 80,
+  maxConcentrationIndex: 2500,
+};
+
+/**
+ * Symbols of the USD- and EUR-pegged tokens counted as stablecoins.
+ */
+export const STABLECOIN_SYMBOLS = new Set([
+  "USDC",
+  "USDC.E",
+  "USDBC",
+  "USDT",
+  "USDT0",
+  "DAI",
+  "XDAI",
+  "USDS",
+  "SUSDS",
+  "SDAI",
+  "USDE",
+  "SUSDE",
+  "FRAX",
+  "LUSD",
+  "BOLD",
+  "GHO",
+  "CRVUSD",
+  "PYUSD",
+  "FDUSD",
+  "TUSD",
+  "USDP",
+  "GUSD",
+  "BUSD",
+  "RLUSD",
+  "USD0",
+  "EURC",
+  "EURE",
+]);
+
+export const isStablecoin = (symbol: string): boolean =>
+  STABLECOIN_SYMBOLS.has(symbol.toUpperCase());
+
+export type Allocation = ValueEntry & { percent: number | null };
+
+export type PortfolioRisk = {
+  networth: number;
+  chains: Allocation[];
+  protocols: Allocation[];
+  chainConcentration: number;
+  protocolConcentration: number;
+  stablecoinValue: number;
+  volatileValue: number;
+  /** Share of token holdings in stablecoins, or `null` without holdings. */
+  stablecoinPercent: number | null;
+  /** Largest protocol other than tokens held directly in the wallet. */
+  largestProtocol?: Allocation;
+  flags: string[];
+};
+
+export const resolveRiskThresholds = (
+  runtime?: IAgentRuntime
+): RiskThresholds => ({
+  maxProtocolPercent: readNumberSetting(
+    runtime,
+    "OCTAV_RISK_MAX_PROTOCOL_PERCENT",
+    DEFAULT_RISK_THRESHOLDS.maxProtocolPercent
+  ),
+  maxChainPercent: readNumberSetting(
+    runtime,
+    "OCTAV_RISK_MAX_CHAIN_PERCENT",
+    DEFAULT_RISK_THRESHOLDS.maxChainPercent
+  ),
+  maxConcentrationIndex: readNumberSetting(
+    runtime,
+    "OCTAV_RISK_MAX_CONCENTRATION_INDEX",
+    DEFAULT_RISK_THRESHOLDS.maxConcentrationIndex
+  ),
+});
+
+const toAllocations = (entries: ValueEntry[], networth: number): Allocation[] =>
+  entries.map((entry) => ({
+    ...entry,
+    percent: networth > 0 ? (entry.value / networth) * 100 : null,
+  }));
+
+/**
+ * Herfindahl-Hirschman index of a split: the sum of the squared percentage
+ * shares, from near 0 when spread thin to 10,000 when all in one place.
+ */
+export const concentrationIndex = (values: number[]): number => {
+  const positive = values.filter((value) => value > 0);
+  const total = positive.reduce((sum, value) => sum + value, 0);
+  if (total === 0) return 0;
+
+  return positive.reduce((sum, value) => sum + ((value / total) * 100) ** 2, 0);
+};
+
+/**
+ * Computes how a portfolio is split across chains, protocols and
+ * stablecoins, and flags the concentrations exceeding the thresholds.
+ */
+export const computePortfolioRisk = (
+  portfolio: OctavPortfolioBalance,
+  thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS,
+  numberFormat: NumberFormatOptions = {}
+): PortfolioRisk => {
+  const networth = Number(portfolio.networth);
+  const chains = toAllocations(
+    getChainValues(portfolio).sort((a, b) => b.value - a.value),
+    networth
+  );
+  const protocols = toAllocations(getProtocolValues(portfolio), networth);
+  const chainConcentration = concentrationIndex(
+    chains.map((chain) => chain.value)
+  );
+  const protocolConcentration = concentrationIndex(
+    protocols.map((protocol) => protocol.value)
+  );
+
+  const holdings = extractTokenHoldings([portfolio]);
+  const stablecoinValue = holdings
+    .filter((holding) => isStablecoin(holding.symbol))
+    .reduce((sum, holding) => sum + holding.value, 0);
+  const volatileValue =
+    holdings.reduce((sum, holding) => sum + holding.value, 0) - stablecoinValue;
+  const holdingsValue = stablecoinValue + volatileValue;
+
+  const largestProtocol = protocols
+    .filter((protocol) => protocol.name !== "Wallet")
+    .reduce<
+      Allocation | undefined
+    >((largest, protocol) => (!largest || protocol.value > largest.value ? protocol : largest), undefined);
+  const largestChain = chains[0];
+
+  const flags: string[] = [];
+  if (
+    largestProtocol?.percent != null &&
+    largestProtocol.percent > thresholds.maxProtocolPercent
+  ) {
+    flags.push(
+      `${largestProtocol.name} holds ${formatShare(largestProtocol.percent, numberFormat)} of net worth (limit ${thresholds.maxProtocolPercent}%)`
+    );
+  }
+  if (
+    largestChain?.percent != null &&
+    largestChain.percent > thresholds.maxChainPercent
+  ) {
+    flags.push(
+      `${largestChain.name} holds ${formatShare(largestChain.percent, numberFormat)} of net worth (limit ${thresholds.maxChainPercent}%)`
+    );
+  }
+  if (chainConcentration > thresholds.maxConcentrationIndex) {
+    flags.push(
+      `Chain concentration index is ${formatNumber(chainConcentration, 0, numberFormat)} (limit ${formatNumber(thresholds.maxConcentrationIndex, 0, numberFormat)})`
+    );
+  }
+  if (protocolConcentration > thresholds.maxConcentrationIndex) {
+    flags.push(
+      `Protocol concentration index is ${formatNumber(protocolConcentration, 0, numberFormat)} (limit ${formatNumber(thresholds.maxConcentrationIndex, 0, numberFormat)})`
+    );
+  }
+
+  return {
+    networth,
+    chains,
+    protocols,
+    chainConcentration,
+    protocolConcentration,
+    stablecoinValue,
+    volatileValue,
+    stablecoinPercent:
+      holdingsValue > 0 ? (stablecoinValue / holdingsValue) * 100 : null,
+    largestProtocol,
+    flags,
+  };
+};
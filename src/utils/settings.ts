@@ -0,0 +1,29 @@
+import { IAgentRuntime } from "@elizaos/core";
+
+/**
+ * Reads a plugin setting from the runtime, falling back to the process
+ * environment for agents that only configure Octav through `.env`.
+ */
+export const readSetting = (
+  runtime: IAgentRuntime | undefined,
+  key: string
+): string | undefined => {
+  const value = runtime?.getSetting(key) ?? process.env[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  return String(value);
+};
+
+/**
+ * Reads a number setting of at least `min`, falling back when it is missing,
+ * not a valid number or too small.
+ */
+export const readNumberSetting = (
+  runtime: IAgentRuntime | undefined,
+  key: string,
+  fallback: number,
+  min = 0
+): number => {
+  const value = readSetting(runtime, key);
+  const number = Number(value);
+  return value !== undefined && number >= min ? number : fallback;
+};
@@ -0,0 +1,93 @@
+import { OctavPortfolioBalance } from "../types";
+import { getChainValues, getProtocolValues, ValueEntry } from "./portfolio";
+
+export type AllocationRow = {
+  key: string;
+  name: string;
+  /** Value held by each wallet, in the order the wallets were given. */
+  values: number[];
+  /** Share of each wallet's net worth, or `null` when it has none. */
+  percents: (number | null)[];
+};
+
+export type WalletComparison = {
+  networths: number[];
+  chains: AllocationRow[];
+  protocols: AllocationRow[];
+  sharedChains: { key: string; name: string }[];
+  sharedProtocols: { key: string; name: string }[];
+  /** Share of each wallet's net worth held in the shared protocols. */
+  sharedProtocolPercents: (number | null)[];
+};
+
+const toPercent = (value: number, total: number): number | null =>
+  total > 0 ? (value / total) * 100 : null;
+
+/**
+ * Lines up the entries of every wallet by key, largest combined value first.
+ */
+const toAllocationRows = (
+  entries: ValueEntry[][],
+  networths: number[]
+): AllocationRow[] => {
+  const rows = new Map<string, AllocationRow>();
+
+  entries.forEach((walletEntries, index) => {
+    for (const entry of walletEntries) {
+      const row = rows.get(entry.key) ?? {
+        key: entry.key,
+        name: entry.name,
+        values: networths.map(() => 0),
+        percents: [],
+      };
+      row.values[index] += entry.value;
+      rows.set(entry.key, row);
+    }
+  });
+
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      percents: row.values.map((value, index) =>
+        toPercent(value, networths[index])
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.values.reduce((sum, value) => sum + value, 0) -
+        a.values.reduce((sum, value) => sum + value, 0)
+    );
+};
+
+const sharedBy = (rows: AllocationRow[]): AllocationRow[] =>
+  rows.filter((row) => row.values.every((value) => value > 0));
+
+/**
+ * Compares the allocation of several wallets: how each splits its net worth
+ * across chains and protocols, and which chains and protocols they all hold.
+ */
+export const computeWalletComparison = (
+  portfolios: OctavPortfolioBalance[]
+): WalletComparison => {
+  const networths = portfolios.map((portfolio) => Number(portfolio.networth));
+  const chains = toAllocationRows(portfolios.map(getChainValues), networths);
+  const protocols = toAllocationRows(
+    portfolios.map(getProtocolValues),
+    networths
+  );
+  const sharedProtocols = sharedBy(protocols);
+
+  return {
+    networths,
+    chains,
+    protocols,
+    sharedChains: sharedBy(chains).map(({ key, name }) => ({ key, name })),
+    sharedProtocols: sharedProtocols.map(({ key, name }) => ({ key, name })),
+    sharedProtocolPercents: networths.map((networth, index) =>
+      toPercent(
+        sharedProtocols.reduce((sum, row) => sum + row.values[index], 0),
+        networth
+      )
+    ),
+  };
+};